@@ -0,0 +1,10 @@
+import { RouteNotFound } from "@/components/errors/route-not-found";
+
+export default function NotFound() {
+  return (
+    <RouteNotFound
+      title="Not Found"
+      description="Sorry, the content you are looking for does not exist or has been moved."
+    />
+  );
+}
@@ -0,0 +1,163 @@
+import { getEntryBySlug } from "@/lib/wordpress";
+import { sanitizeHtml, sanitizeInlineHtml } from "@/lib/sanitize";
+import { Section, Container, Article, Prose } from "@/components/craft";
+import { HtmlContent } from "@/components/content/html-content";
+import { JsonLd } from "@/components/content/json-ld";
+import { TranslationLinks } from "@/components/content/translation-links";
+import { localizePath } from "@/lib/i18n";
+import { getOgImageUrl } from "@/lib/og";
+import { getLocale } from "@/lib/request-locale";
+import { getBreadcrumbListSchema, getSchemaSite } from "@/lib/structured-data";
+import {
+  getAlternateLanguages,
+  getEntryTranslationPaths,
+} from "@/lib/translations";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/site.config";
+import { wpConfig } from "@/wp.config";
+
+import Balancer from "react-wrap-balancer";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ type: string; slug: string }>;
+}): Promise<Metadata> {
+  const { type, slug } = await params;
+
+  if (!Object.hasOwn(wpConfig.postTypes, type)) {
+    return {};
+  }
+
+  const entry = await getEntryBySlug(type, slug);
+
+  if (!entry) {
+    return {};
+  }
+
+  const [locale, translations] = await Promise.all([
+    getLocale(),
+    getEntryTranslationPaths(type, entry),
+  ]);
+  const url = `${siteConfig.site_domain}${translations[locale]}`;
+
+  // Strip HTML tags for description
+  const description = entry.excerpt?.rendered
+    ? entry.excerpt.rendered.replace(/<[^>]*>/g, "").trim()
+    : "";
+  const ogUrl = getOgImageUrl({
+    template: "post",
+    locale,
+    title: entry.title.rendered,
+    description,
+    image: entry._embedded?.["wp:featuredmedia"]?.[0]?.source_url,
+    label: wpConfig.postTypes[type].label,
+    date: new Date(entry.date).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+  });
+
+  return {
+    title: entry.title.rendered,
+    description: description,
+    alternates: {
+      canonical: url,
+      languages: getAlternateLanguages(translations),
+    },
+    openGraph: {
+      title: entry.title.rendered,
+      description: description,
+      type: "article",
+      url,
+      images: [
+        {
+          url: ogUrl,
+          width: 1200,
+          height: 630,
+          alt: entry.title.rendered,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: entry.title.rendered,
+      description: description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default async function Page({
+  params,
+}: {
+  params: Promise<{ type: string; slug: string }>;
+}) {
+  const { type, slug } = await params;
+
+  if (!Object.hasOwn(wpConfig.postTypes, type)) {
+    notFound();
+  }
+
+  const entry = await getEntryBySlug(type, slug);
+
+  if (!entry) {
+    notFound();
+  }
+
+  const [locale, translations] = await Promise.all([
+    getLocale(),
+    getEntryTranslationPaths(type, entry),
+  ]);
+  const media = entry._embedded?.["wp:featuredmedia"]?.[0];
+  const date = new Date(entry.date).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <Section>
+      <JsonLd
+        data={getBreadcrumbListSchema(
+          [
+            { title: wpConfig.postTypes[type].label, href: `/${type}` },
+            { title: entry.title.rendered },
+          ],
+          `${getSchemaSite().url}${localizePath("/", locale)}`
+        )}
+      />
+      <Container>
+        <Prose>
+          <h1>
+            <Balancer>
+              <span
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeInlineHtml(entry.title.rendered),
+                }}
+              ></span>
+            </Balancer>
+          </h1>
+          <h5 className="text-sm mb-4">Published {date}</h5>
+          <TranslationLinks paths={translations} locale={locale} />
+          {media?.source_url && (
+            <div className="h-96 my-12 md:h-[500px] overflow-hidden flex items-center justify-center border rounded-lg bg-accent/25">
+              {/* eslint-disable-next-line */}
+              <img
+                className="w-full h-full object-cover"
+                src={media.source_url}
+                alt={media.alt_text || entry.title.rendered}
+              />
+            </div>
+          )}
+        </Prose>
+
+        <Article>
+          <HtmlContent html={sanitizeHtml(entry.content.rendered)} />
+        </Article>
+      </Container>
+    </Section>
+  );
+}
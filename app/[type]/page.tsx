@@ -0,0 +1,92 @@
+import { getEntries, WordPressNotFoundError } from "@/lib/wordpress";
+import { Section, Container, Prose } from "@/components/craft";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { EntryCard } from "@/components/entries/entry-card";
+import { PostsPagination } from "@/components/posts/posts-pagination";
+import { wpConfig } from "@/wp.config";
+
+export const revalidate = 600;
+
+export function generateStaticParams() {
+  return Object.keys(wpConfig.postTypes).map((type) => ({ type }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ type: string }>;
+}): Promise<Metadata> {
+  const { type } = await params;
+  const postType = Object.hasOwn(wpConfig.postTypes, type)
+    ? wpConfig.postTypes[type]
+    : null;
+
+  if (!postType) {
+    return {};
+  }
+
+  return {
+    title: postType.label,
+    description: postType.description,
+  };
+}
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ type: string }>;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const { type } = await params;
+  const { page: pageParam } = await searchParams;
+  // Own keys only, so `/constructor` isn't taken for a post type
+  const postType = Object.hasOwn(wpConfig.postTypes, type)
+    ? wpConfig.postTypes[type]
+    : null;
+
+  if (!postType) {
+    notFound();
+  }
+
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+  const entries = await getEntries(type, { page }).catch((error) => {
+    // The post type is configured but not registered in WordPress
+    if (error instanceof WordPressNotFoundError) notFound();
+    throw error;
+  });
+
+  return (
+    <Section>
+      <Container>
+        <div className="space-y-8">
+          <Prose>
+            <h2>{postType.label}</h2>
+            {postType.description && (
+              <p className="text-muted-foreground">{postType.description}</p>
+            )}
+          </Prose>
+
+          {entries.items.length > 0 ? (
+            <div className="grid md:grid-cols-3 gap-4">
+              {entries.items.map((entry) => (
+                <EntryCard key={entry.id} entry={entry} basePath={`/${type}`} />
+              ))}
+            </div>
+          ) : (
+            <div className="h-24 w-full border rounded-lg bg-accent/25 flex items-center justify-center">
+              <p>Nothing found</p>
+            </div>
+          )}
+
+          <PostsPagination
+            currentPage={page}
+            totalPages={entries.totalPages}
+            basePath={`/${type}`}
+          />
+        </div>
+      </Container>
+    </Section>
+  );
+}
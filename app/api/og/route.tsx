@@ -1,71 +1,99 @@
 import { ImageResponse } from "next/og";
 import { NextRequest } from "next/server";
 
+import { Locale } from "@/lib/i18n";
+import { OG_IMAGE_SIZE, parseOgImageParams } from "@/lib/og";
+import { siteConfig } from "@/site.config";
+import { ogTemplateComponents, ogThemes } from "./templates";
+
 export const runtime = "edge";
 
+// Fonts ship with the repo instead of being fetched from Google Fonts. Noto
+// Sans KR is a subset with the 2,350 Hangul syllables of KS X 1001, Latin and
+// punctuation.
+const fonts = {
+  "Noto Sans": fetch(
+    new URL("./fonts/NotoSans-Regular.ttf", import.meta.url)
+  ).then((response) => response.arrayBuffer()),
+  "Noto Sans KR": fetch(
+    new URL("./fonts/NotoSansKR-Regular.ttf", import.meta.url)
+  ).then((response) => response.arrayBuffer()),
+};
+
+type FontName = keyof typeof fonts;
+
+// Font of each locale. The other fonts cover characters it lacks, e.g. a
+// Korean title on an English page.
+const localeFonts: Partial<Record<Locale, FontName>> = {
+  ko: "Noto Sans KR",
+};
+
+// Formats the image renderer can draw. Others, e.g. WebP, are left out.
+const imageTypes = ["image/png", "image/jpeg", "image/gif", "image/svg+xml"];
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+// Loads an image as a data URL, so a missing or broken image drops out of the
+// template instead of failing the whole render
+async function loadImage(url: string | undefined) {
+  if (!url) return undefined;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    const type = response.headers.get("content-type")?.split(";")[0] ?? "";
+    const size = Number(response.headers.get("content-length") ?? 0);
+
+    if (!response.ok || !imageTypes.includes(type) || size > MAX_IMAGE_BYTES) {
+      return undefined;
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    return `data:${type};base64,${btoa(binary)}`;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-
-    // Get title and description from the URL query params
-    const title = searchParams.get("title");
-    const description = searchParams.get("description");
+    const params = parseOgImageParams(searchParams);
+    const family = localeFonts[params.locale] ?? "Noto Sans";
+    const names = Object.keys(fonts) as FontName[];
+    const [fontData, image, avatar] = await Promise.all([
+      Promise.all(names.map((name) => fonts[name])),
+      loadImage(params.image),
+      loadImage(params.avatar),
+    ]);
+    const Template = ogTemplateComponents[params.template];
 
     return new ImageResponse(
-      (
-        <div
-          style={{
-            height: "100%",
-            width: "100%",
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "flex-start",
-            justifyContent: "center",
-            padding: "80px",
-            backgroundColor: "white",
-            backgroundImage:
-              "radial-gradient(circle at 25px 25px, lightgray 2%, transparent 0%), radial-gradient(circle at 75px 75px, lightgray 2%, transparent 0%)",
-            backgroundSize: "100px 100px",
-          }}
-        >
-          <div
-            style={{
-              display: "flex",
-              fontSize: 60,
-              fontStyle: "normal",
-              color: "black",
-              marginBottom: 30,
-              whiteSpace: "pre-wrap",
-              lineHeight: 1.2,
-              maxWidth: "800px",
-            }}
-          >
-            {title}
-          </div>
-          {description && (
-            <div
-              style={{
-                fontSize: 30,
-                fontStyle: "normal",
-                color: "gray",
-                whiteSpace: "pre-wrap",
-                lineHeight: 1.2,
-                maxWidth: "800px",
-                display: "-webkit-box",
-                WebkitLineClamp: "2",
-                WebkitBoxOrient: "vertical",
-                overflow: "hidden",
-                textOverflow: "ellipsis",
-              }}
-            >
-              {description}
-            </div>
-          )}
-        </div>
-      ),
+      <div
+        style={{
+          display: "flex",
+          width: "100%",
+          height: "100%",
+          fontFamily: family,
+        }}
+      >
+        <Template
+          data={{ ...params, image, avatar }}
+          theme={ogThemes[siteConfig.og_theme]}
+          siteName={siteConfig.site_name}
+        />
+      </div>,
       {
-        width: 1200,
-        height: 630,
+        ...OG_IMAGE_SIZE,
+        fonts: names.map((name, index) => ({
+          name,
+          data: fontData[index],
+          weight: 400,
+          style: "normal",
+        })),
       }
     );
   } catch (e: any) {
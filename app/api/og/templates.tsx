@@ -0,0 +1,350 @@
+import type { CSSProperties, ReactNode } from "react";
+
+import { OgImageParams, OgTemplate } from "@/lib/og";
+
+// Colors of the light and dark image themes, picked by `siteConfig.og_theme`
+export interface OgTheme {
+  background: string;
+  foreground: string;
+  muted: string;
+  subtle: string;
+  border: string;
+  dots: string;
+  accent: string;
+}
+
+export const ogThemes: Record<"light" | "dark", OgTheme> = {
+  light: {
+    background: "#ffffff",
+    foreground: "#0a0a0a",
+    muted: "#6b7280",
+    subtle: "#f4f4f5",
+    border: "#e4e4e7",
+    dots: "#d4d4d8",
+    accent: "#eab308",
+  },
+  dark: {
+    background: "#0a0a0a",
+    foreground: "#fafafa",
+    muted: "#a1a1aa",
+    subtle: "#18181b",
+    border: "#27272a",
+    dots: "#3f3f46",
+    accent: "#facc15",
+  },
+};
+
+// Image URLs are replaced by data URLs once the route has loaded them
+export interface OgTemplateProps {
+  data: OgImageParams;
+  theme: OgTheme;
+  siteName: string;
+}
+
+function clamp(lines: number): CSSProperties {
+  return {
+    display: "-webkit-box",
+    WebkitLineClamp: String(lines),
+    WebkitBoxOrient: "vertical",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  };
+}
+
+function Frame({
+  theme,
+  siteName,
+  children,
+}: {
+  theme: OgTheme;
+  siteName: string;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: "56px",
+        color: theme.foreground,
+        backgroundColor: theme.background,
+        backgroundImage: `radial-gradient(circle at 25px 25px, ${theme.dots} 2%, transparent 0%), radial-gradient(circle at 75px 75px, ${theme.dots} 2%, transparent 0%)`,
+        backgroundSize: "100px 100px",
+      }}
+    >
+      <div style={{ display: "flex", flex: 1, gap: "56px" }}>{children}</div>
+      <div
+        style={{
+          display: "flex",
+          marginTop: "24px",
+          paddingTop: "20px",
+          borderTop: `1px solid ${theme.border}`,
+          fontSize: 24,
+          color: theme.muted,
+        }}
+      >
+        {siteName}
+      </div>
+    </div>
+  );
+}
+
+function Kicker({ theme, children }: { theme: OgTheme; children: ReactNode }) {
+  return (
+    <div style={{ display: "flex", marginBottom: "20px" }}>
+      <div
+        style={{
+          display: "flex",
+          padding: "6px 18px",
+          borderRadius: "999px",
+          border: `1px solid ${theme.border}`,
+          backgroundColor: theme.subtle,
+          fontSize: 22,
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function Title({ size = 56, children }: { size?: number; children: string }) {
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        fontSize: size,
+        lineHeight: 1.25,
+        marginBottom: "20px",
+        ...clamp(3),
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function Description({
+  theme,
+  children,
+}: {
+  theme: OgTheme;
+  children: string;
+}) {
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        fontSize: 26,
+        lineHeight: 1.4,
+        color: theme.muted,
+        ...clamp(2),
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function Cover({ src, theme }: { src: string; theme: OgTheme }) {
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={src}
+      alt=""
+      width={420}
+      height={444}
+      style={{
+        objectFit: "cover",
+        borderRadius: "24px",
+        border: `1px solid ${theme.border}`,
+      }}
+    />
+  );
+}
+
+function Avatar({ src, size }: { src: string; size: number }) {
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={src}
+      alt=""
+      width={size}
+      height={size}
+      style={{ borderRadius: "999px", objectFit: "cover" }}
+    />
+  );
+}
+
+// The font has no star glyph
+function Rating({
+  rating,
+  reviews,
+  theme,
+}: {
+  rating: string;
+  reviews?: string;
+  theme: OgTheme;
+}) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+      <svg width="28" height="28" viewBox="0 0 24 24" fill={theme.accent}>
+        <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+      </svg>
+      <span>{rating}</span>
+      {reviews && (
+        <span style={{ color: theme.muted }}>
+          {`(${reviews} ${reviews === "1" ? "review" : "reviews"})`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function Column({ children }: { children: ReactNode }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+        flex: 1,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function DefaultTemplate({ data, theme, siteName }: OgTemplateProps) {
+  return (
+    <Frame theme={theme} siteName={siteName}>
+      <Column>
+        <Title>{data.title}</Title>
+        {data.description && (
+          <Description theme={theme}>{data.description}</Description>
+        )}
+      </Column>
+    </Frame>
+  );
+}
+
+// Posts and custom post type entries
+function PostTemplate({ data, theme, siteName }: OgTemplateProps) {
+  const byline = [data.author, data.date].filter(Boolean).join(" · ");
+
+  return (
+    <Frame theme={theme} siteName={siteName}>
+      <Column>
+        {data.label && <Kicker theme={theme}>{data.label}</Kicker>}
+        <Title size={data.image ? 48 : 56}>{data.title}</Title>
+        {data.description && (
+          <Description theme={theme}>{data.description}</Description>
+        )}
+        {byline && (
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "16px",
+              marginTop: "24px",
+              fontSize: 24,
+            }}
+          >
+            {data.avatar && <Avatar src={data.avatar} size={48} />}
+            <span>{byline}</span>
+          </div>
+        )}
+      </Column>
+      {data.image && <Cover src={data.image} theme={theme} />}
+    </Frame>
+  );
+}
+
+// Courses and products share the price, level and rating row
+function OfferTemplate({
+  data,
+  theme,
+  siteName,
+  kicker,
+}: OgTemplateProps & { kicker?: string }) {
+  return (
+    <Frame theme={theme} siteName={siteName}>
+      <Column>
+        {kicker && <Kicker theme={theme}>{kicker}</Kicker>}
+        <Title size={data.image ? 48 : 56}>{data.title}</Title>
+        {data.description && (
+          <Description theme={theme}>{data.description}</Description>
+        )}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "28px",
+            marginTop: "24px",
+            fontSize: 26,
+          }}
+        >
+          {data.price && (
+            <div
+              style={{
+                display: "flex",
+                padding: "8px 20px",
+                borderRadius: "12px",
+                color: theme.background,
+                backgroundColor: theme.foreground,
+                fontSize: 30,
+              }}
+            >
+              {data.price}
+            </div>
+          )}
+          {data.level && <span>{data.level}</span>}
+          {data.rating && (
+            <Rating rating={data.rating} reviews={data.reviews} theme={theme} />
+          )}
+        </div>
+      </Column>
+      {data.image && <Cover src={data.image} theme={theme} />}
+    </Frame>
+  );
+}
+
+function AuthorTemplate({ data, theme, siteName }: OgTemplateProps) {
+  return (
+    <Frame theme={theme} siteName={siteName}>
+      {data.avatar && (
+        <div style={{ display: "flex", alignItems: "center" }}>
+          <Avatar src={data.avatar} size={240} />
+        </div>
+      )}
+      <Column>
+        <Kicker theme={theme}>Author</Kicker>
+        <Title>{data.title}</Title>
+        {data.description && (
+          <Description theme={theme}>{data.description}</Description>
+        )}
+        {data.posts && (
+          <div style={{ display: "flex", marginTop: "24px", fontSize: 26 }}>
+            {`${data.posts} ${data.posts === "1" ? "post" : "posts"}`}
+          </div>
+        )}
+      </Column>
+    </Frame>
+  );
+}
+
+export const ogTemplateComponents: Record<
+  OgTemplate,
+  (props: OgTemplateProps) => JSX.Element
+> = {
+  default: DefaultTemplate,
+  post: PostTemplate,
+  course: (props) => (
+    <OfferTemplate {...props} kicker={props.data.label ?? "Course"} />
+  ),
+  product: (props) => <OfferTemplate {...props} kicker={props.data.label} />,
+  author: AuthorTemplate,
+};
@@ -0,0 +1,13 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextRequest } from "next/server";
+
+// Disables draft mode and returns to the previewed path
+export async function GET(request: NextRequest) {
+  const path = request.nextUrl.searchParams.get("redirect");
+
+  (await draftMode()).disable();
+
+  // Only allow relative paths to avoid an open redirect
+  redirect(path && path.startsWith("/") && !path.startsWith("//") ? path : "/");
+}
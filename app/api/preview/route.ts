@@ -0,0 +1,64 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextRequest, NextResponse } from "next/server";
+
+import { getPreviewPath } from "@/lib/wordpress";
+
+// Compares digests in constant time, so neither the secret nor its length
+// leaks through response timing
+function isValidSecret(secret: string | null, expected: string): boolean {
+  if (!secret) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(secret), digest(expected));
+}
+
+// Enables Next.js draft mode for a WordPress post or page
+// Usage: /api/preview?secret=<WORDPRESS_PREVIEW_SECRET>&type=post&id=<id>
+// `id` is WordPress's `preview_id`; drafts often have no slug to pass instead.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const secret = searchParams.get("secret");
+  const slug = searchParams.get("slug");
+  const id = searchParams.get("id");
+  const type = searchParams.get("type") ?? "post";
+
+  if (!process.env.WORDPRESS_PREVIEW_SECRET) {
+    return NextResponse.json(
+      { message: "Preview is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (!isValidSecret(secret, process.env.WORDPRESS_PREVIEW_SECRET)) {
+    return NextResponse.json({ message: "Invalid secret" }, { status: 401 });
+  }
+
+  if (
+    (!slug && !id) ||
+    (id && !/^\d+$/.test(id)) ||
+    (type !== "post" && type !== "page")
+  ) {
+    return NextResponse.json(
+      { message: "An id or slug and a type of post or page are required" },
+      { status: 400 }
+    );
+  }
+
+  const path = id
+    ? await getPreviewPath(type, Number(id))
+    : `${type === "page" ? "/pages" : "/posts"}/${encodeURIComponent(slug!)}`;
+
+  if (!path) {
+    return NextResponse.json(
+      { message: `No ${type} with id ${id}` },
+      { status: 404 }
+    );
+  }
+
+  (await draftMode()).enable();
+  redirect(path);
+}
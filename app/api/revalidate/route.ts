@@ -0,0 +1,205 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getPeriodTags } from "@/lib/post-archives";
+import { revalidateWordPressData } from "@/lib/wordpress";
+
+// Webhook payloads sent by the WordPress revalidation plugin.
+// Every payload carries the content type and id; the remaining fields are
+// used to reach the list and relation tags that `wordpressFetch` sets.
+const postPayload = z.object({
+  contentType: z.literal("post"),
+  contentId: z.number(),
+  slug: z.string().optional(),
+  previousSlug: z.string().optional(),
+  author: z.number().optional(),
+  categories: z.array(z.number()).optional(),
+  tags: z.array(z.number()).optional(),
+  // Publish date in the site's timezone, e.g. `2024-05-14T09:30:00`
+  date: z.string().optional(),
+});
+
+const pagePayload = z.object({
+  contentType: z.literal("page"),
+  contentId: z.number(),
+  slug: z.string().optional(),
+  previousSlug: z.string().optional(),
+});
+
+const categoryPayload = z.object({
+  contentType: z.literal("category"),
+  contentId: z.number(),
+  slug: z.string().optional(),
+});
+
+const tagPayload = z.object({
+  contentType: z.literal("tag"),
+  contentId: z.number(),
+  slug: z.string().optional(),
+});
+
+const authorPayload = z.object({
+  contentType: z.literal("author"),
+  contentId: z.number(),
+  slug: z.string().optional(),
+});
+
+const mediaPayload = z.object({
+  contentType: z.literal("media"),
+  contentId: z.number(),
+});
+
+const menuPayload = z.object({
+  contentType: z.literal("menu"),
+  location: z.string().optional(),
+});
+
+// Custom post types and taxonomies from `wp.config.ts`
+const entryPayload = z.object({
+  contentType: z.literal("entry"),
+  postType: z.string(),
+  contentId: z.number(),
+  slug: z.string().optional(),
+  previousSlug: z.string().optional(),
+});
+
+const termPayload = z.object({
+  contentType: z.literal("term"),
+  taxonomy: z.string(),
+  contentId: z.number(),
+  slug: z.string().optional(),
+});
+
+const webhookPayload = z.discriminatedUnion("contentType", [
+  postPayload,
+  pagePayload,
+  categoryPayload,
+  tagPayload,
+  authorPayload,
+  mediaPayload,
+  menuPayload,
+  entryPayload,
+  termPayload,
+]);
+
+type WebhookPayload = z.infer<typeof webhookPayload>;
+
+// Verify the `x-wordpress-signature` header, an HMAC-SHA256 hex digest of the
+// raw request body (optionally prefixed with `sha256=`)
+function isValidSignature(body: string, signature: string | null): boolean {
+  const secret = process.env.WORDPRESS_WEBHOOK_SECRET;
+
+  if (!secret || !signature) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(body).digest("hex");
+  const received = signature.replace(/^sha256=/, "");
+
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const receivedBuffer = Buffer.from(received, "hex");
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+// Map a webhook event to the cache tags set in `lib/wordpress.ts`
+function getTagsForPayload(payload: WebhookPayload): string[] {
+  const tags: string[] = [];
+
+  switch (payload.contentType) {
+    case "post":
+      tags.push("posts", `post-${payload.contentId}`);
+      if (payload.slug) tags.push(`post-${payload.slug}`);
+      if (payload.previousSlug) tags.push(`post-${payload.previousSlug}`);
+      if (payload.author) tags.push(`author-${payload.author}`);
+      payload.categories?.forEach((id) => tags.push(`category-${id}`));
+      payload.tags?.forEach((id) => tags.push(`tag-${id}`));
+      if (payload.date) tags.push(...getPeriodTags(payload.date));
+      break;
+    case "page":
+      tags.push("pages", `page-${payload.contentId}`);
+      if (payload.slug) tags.push(`page-${payload.slug}`);
+      if (payload.previousSlug) tags.push(`page-${payload.previousSlug}`);
+      break;
+    case "category":
+      tags.push("categories", `category-${payload.contentId}`);
+      if (payload.slug) tags.push(`category-${payload.slug}`);
+      break;
+    case "tag":
+      tags.push("tags", `tag-${payload.contentId}`);
+      if (payload.slug) tags.push(`tag-${payload.slug}`);
+      break;
+    case "author":
+      tags.push("authors", `author-${payload.contentId}`);
+      if (payload.slug) tags.push(`author-${payload.slug}`);
+      break;
+    case "media":
+      tags.push(`media-${payload.contentId}`);
+      break;
+    case "menu":
+      tags.push(payload.location ? `menu-${payload.location}` : "menus");
+      break;
+    case "entry":
+      tags.push(
+        `type-${payload.postType}`,
+        `${payload.postType}-${payload.contentId}`
+      );
+      if (payload.slug) tags.push(`${payload.postType}-${payload.slug}`);
+      if (payload.previousSlug) {
+        tags.push(`${payload.postType}-${payload.previousSlug}`);
+      }
+      break;
+    case "term":
+      tags.push(
+        `taxonomy-${payload.taxonomy}`,
+        `${payload.taxonomy}-${payload.contentId}`
+      );
+      if (payload.slug) tags.push(`${payload.taxonomy}-${payload.slug}`);
+      break;
+  }
+
+  return Array.from(new Set(tags));
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+  const signature = request.headers.get("x-wordpress-signature");
+
+  if (!isValidSignature(body, signature)) {
+    return NextResponse.json({ message: "Invalid signature" }, { status: 401 });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = webhookPayload.safeParse(json);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Invalid payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const tags = getTagsForPayload(parsed.data);
+
+  try {
+    await revalidateWordPressData(tags);
+  } catch (error) {
+    console.error("Revalidation webhook failed:", error);
+    return NextResponse.json(
+      { message: "Failed to revalidate" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ revalidated: true, tags, now: Date.now() });
+}
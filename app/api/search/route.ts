@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { defaultLocale, isLocale } from "@/lib/i18n";
+import { searchSite } from "@/lib/search";
+
+// Backs the quick search palette in the nav
+export const GET = withStaleWarning(async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q") ?? "";
+  // API routes have no locale prefix, so the palette sends its page's locale
+  const locale = request.nextUrl.searchParams.get("locale");
+
+  if (query.trim().length < 2) {
+    return NextResponse.json({ message: "Query too short" }, { status: 400 });
+  }
+
+  const response = await searchSite(query, {
+    limit: 5,
+    locale: isLocale(locale) ? locale : defaultLocale,
+  });
+
+  return NextResponse.json(response, {
+    headers: { "Cache-Control": "s-maxage=60, stale-while-revalidate=300" },
+  });
+});
@@ -0,0 +1,15 @@
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { getAllPosts } from "@/lib/wordpress";
+import { createFeedResponse } from "@/lib/feeds";
+import { siteConfig } from "@/site.config";
+
+// Regenerated hourly, or when the `posts` tag is revalidated
+export const revalidate = 3600;
+
+export const GET = withStaleWarning(async function GET() {
+  return createFeedResponse("atom.xml", await getAllPosts(), {
+    title: siteConfig.site_name,
+    description: siteConfig.site_description,
+    path: "/",
+  });
+});
@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { getAllPosts, getAuthorBySlug } from "@/lib/wordpress";
+import { createFeedResponse, isFeedFormat } from "@/lib/feeds";
+import { siteConfig } from "@/site.config";
+
+// Regenerated hourly, or when the `posts` tag is revalidated
+export const revalidate = 3600;
+
+// `/authors/{slug}/feed.xml`, `atom.xml` and `feed.json`
+export const GET = withStaleWarning(async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const author = isFeedFormat(feed) ? await getAuthorBySlug(slug) : null;
+
+  if (!isFeedFormat(feed) || !author) {
+    notFound();
+  }
+
+  const posts = await getAllPosts({ author: String(author.id) });
+
+  return createFeedResponse(feed, posts, {
+    title: `${author.name} - ${siteConfig.site_name}`,
+    description: author.description || `Posts by ${author.name}`,
+    path: `/authors/${author.slug}`,
+  });
+});
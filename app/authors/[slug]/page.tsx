@@ -0,0 +1,116 @@
+import {
+  getAuthorBySlug,
+  getPostsByAuthorSlug,
+  withRelations,
+} from "@/lib/wordpress";
+
+import { PostArchive } from "@/components/posts/post-archive";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/site.config";
+import { getFeedAlternates } from "@/lib/feeds";
+import { getOgImageUrl } from "@/lib/og";
+import { getLocale } from "@/lib/request-locale";
+
+export const revalidate = 600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const author = await getAuthorBySlug(slug);
+
+  if (!author) {
+    return {};
+  }
+
+  const title = `Posts by ${author.name}`;
+  const description =
+    author.description || `Browse all posts by ${author.name}`;
+  // Shares the cached first page with the page itself
+  const posts = await getPostsByAuthorSlug(slug, { page: 1 });
+  const ogUrl = getOgImageUrl({
+    template: "author",
+    locale: await getLocale(),
+    title: author.name,
+    description,
+    avatar: author.avatar_urls?.["96"],
+    posts: String(posts.total),
+  });
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/authors/${author.slug}`,
+      types: getFeedAlternates(`/authors/${author.slug}`, title),
+    },
+    openGraph: {
+      title,
+      description,
+      type: "profile",
+      url: `${siteConfig.site_domain}/authors/${author.slug}`,
+      images: [{ url: ogUrl, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const { slug } = await params;
+  const { page: pageParam } = await searchParams;
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+
+  const [author, posts] = await Promise.all([
+    getAuthorBySlug(slug),
+    getPostsByAuthorSlug(slug, { page }),
+  ]);
+
+  if (!author) {
+    notFound();
+  }
+
+  const items = await withRelations(posts.items);
+  // Largest Gravatar size WordPress provides
+  const avatar = Object.entries(author.avatar_urls ?? {}).sort(
+    ([a], [b]) => Number(b) - Number(a)
+  )[0]?.[1];
+
+  return (
+    <PostArchive
+      label="Author"
+      title={author.name}
+      description={author.description}
+      header={
+        avatar && (
+          // eslint-disable-next-line
+          <img
+            src={avatar}
+            alt={author.name}
+            width={96}
+            height={96}
+            className="h-24 w-24 rounded-full border"
+          />
+        )
+      }
+      posts={items}
+      total={posts.total}
+      currentPage={page}
+      totalPages={posts.totalPages}
+      basePath={`/authors/${author.slug}`}
+    />
+  );
+}
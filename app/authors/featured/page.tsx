@@ -4,6 +4,8 @@ import { Badge } from "@/components/ui/badge";
 import { Metadata } from "next";
 import Image from "next/image";
 import Link from "next/link";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
 import { Author, Post } from "@/lib/wordpress.d";
 
 export const metadata: Metadata = {
@@ -31,6 +33,7 @@ async function getFeaturedAuthorsWithPosts() {
 
 export default async function FeaturedAuthors() {
   const featuredAuthors = await getFeaturedAuthorsWithPosts();
+  const locale = await getLocale();
 
   return (
     <Section>
@@ -78,7 +81,7 @@ export default async function FeaturedAuthors() {
                   {author.posts.map((post: Post) => (
                     <Link 
                       key={post.id}
-                      href={`/posts/${post.slug}`}
+                      href={localizePath(`/posts/${post.slug}`, locale)}
                       className="group p-4 rounded-md hover:bg-muted transition-colors"
                     >
                       <h4 className="font-medium group-hover:text-primary">
@@ -0,0 +1,12 @@
+import { RouteNotFound } from "@/components/errors/route-not-found";
+
+export default function NotFound() {
+  return (
+    <RouteNotFound
+      title="Course Not Found"
+      description="Sorry, the course you are looking for does not exist or has been moved."
+      backHref="/courses"
+      backLabel="Back to Courses"
+    />
+  );
+}
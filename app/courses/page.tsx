@@ -2,7 +2,9 @@ import { Suspense } from 'react';
 import { getTutorCourse, getTutorCourses } from '@/lib/tutor-lms';
 import { getProducts } from '@/lib/woocommerce';
 import { getCoursesWithPricing } from '@/lib/tutor-course-utils';
+import { sanitizeHtml } from '@/lib/sanitize';
 import CoursesList from '@/components/courses/courses-list';
+import { ListedCourse } from '@/components/courses/course-card';
 import CoursesHeader from '@/components/courses/courses-header';
 import CoursesLoading from '@/components/courses/courses-loading';
 
@@ -45,7 +47,14 @@ async function CoursesContent() {
     // Combine TutorLMS courses with WooCommerce pricing
     const coursesWithPricing = await getCoursesWithPricing(tutorCourses, wooProducts);
 
-    return <CoursesList courses={coursesWithPricing} />;
+    // CourseCard renders the excerpt as HTML on the client, so it is
+    // sanitized here on the server
+    const courses: ListedCourse[] = coursesWithPricing.map((course) => ({
+      ...course,
+      excerptHtml: sanitizeHtml(course.excerpt?.rendered),
+    }));
+
+    return <CoursesList courses={courses} />;
   } catch (error) {
     console.error('Error fetching courses:', error);
     return (
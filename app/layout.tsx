@@ -4,9 +4,20 @@ import type { Metadata } from "next";
 import { Inter as FontSans } from "next/font/google";
 import { ThemeProvider } from "@/components/theme/theme-provider";
 import { Analytics } from "@vercel/analytics/react";
+import { draftMode } from "next/headers";
 import { LayoutWrapper } from "@/components/layout-wrapper";
+import { PreviewBanner } from "@/components/preview/preview-banner";
+import { JsonLd } from "@/components/content/json-ld";
 import { siteConfig } from "@/site.config";
+import { getFeedAlternates } from "@/lib/feeds";
 import { isProxyAccess } from "@/lib/proxy-detection";
+import { getLocale } from "@/lib/request-locale";
+import { localizePath } from "@/lib/i18n";
+import {
+  getOrganizationSchema,
+  getSchemaSite,
+  getWebSiteSchema,
+} from "@/lib/structured-data";
 
 import { cn } from "@/lib/utils";
 
@@ -22,6 +33,7 @@ export const metadata: Metadata = {
   metadataBase: new URL(siteConfig.site_domain),
   alternates: {
     canonical: `${siteConfig.site_domain}/`, // Uses SITE_DOMAIN
+    types: getFeedAlternates("/", siteConfig.site_name),
   },
 };
 
@@ -32,9 +44,12 @@ export default async function RootLayout({
 }) {
   // 서버에서 프록시 접근 감지
   const isProxy = await isProxyAccess();
+  const { isEnabled: isPreview } = await draftMode();
+  const locale = await getLocale();
+  const site = getSchemaSite();
 
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={locale} suppressHydrationWarning>
       <head />
       <body className={cn("min-h-screen font-sans antialiased", font.variable)}>
         <ThemeProvider
@@ -43,11 +58,21 @@ export default async function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
+          {isPreview && <PreviewBanner />}
           <LayoutWrapper isProxyAccess={isProxy} {...metadata}>
             {children}
           </LayoutWrapper>
         </ThemeProvider>
         <Analytics />
+        <JsonLd
+          data={[
+            getOrganizationSchema(site),
+            getWebSiteSchema(site, {
+              locale,
+              searchPath: localizePath("/search", locale),
+            }),
+          ]}
+        />
       </body>
     </html>
   );
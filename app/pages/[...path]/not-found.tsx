@@ -0,0 +1,12 @@
+import { RouteNotFound } from "@/components/errors/route-not-found";
+
+export default function NotFound() {
+  return (
+    <RouteNotFound
+      title="Page Not Found"
+      description="Sorry, the page you are looking for does not exist or has been moved."
+      backHref="/pages"
+      backLabel="Back to Pages"
+    />
+  );
+}
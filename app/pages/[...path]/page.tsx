@@ -0,0 +1,156 @@
+import { getPageByPath, getPageHierarchy } from "@/lib/wordpress";
+import { buildPageTree, findPageNode } from "@/lib/page-tree";
+import { sanitizeHtml, sanitizeInlineHtml } from "@/lib/sanitize";
+import { Section, Container, Prose } from "@/components/craft";
+import { PageBreadcrumbs } from "@/components/pages/page-breadcrumbs";
+import { PageSidebar } from "@/components/pages/page-sidebar";
+import { HtmlContent } from "@/components/content/html-content";
+import { TranslationLinks } from "@/components/content/translation-links";
+import { getOgImageUrl } from "@/lib/og";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import {
+  getAlternateLanguages,
+  getPageTranslationPaths,
+} from "@/lib/translations";
+import { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import { siteConfig } from "@/site.config";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ path: string[] }>;
+}): Promise<Metadata> {
+  const { path } = await params;
+  const resolved = await getPageByPath(path);
+
+  if (!resolved) {
+    return {};
+  }
+
+  const { page } = resolved;
+  const [locale, translations] = await Promise.all([
+    getLocale(),
+    getPageTranslationPaths(page, `/pages/${resolved.path.join("/")}`),
+  ]);
+  const url = `${siteConfig.site_domain}${translations[locale]}`;
+
+  // Strip HTML tags for description and limit length
+  const description = page.excerpt?.rendered
+    ? page.excerpt.rendered.replace(/<[^>]*>/g, "").trim()
+    : page.content.rendered
+        .replace(/<[^>]*>/g, "")
+        .trim()
+        .slice(0, 200) + "...";
+  const ogUrl = getOgImageUrl({
+    title: page.title.rendered,
+    description,
+    locale,
+  });
+
+  return {
+    title: page.title.rendered,
+    description: description,
+    alternates: {
+      canonical: url,
+      languages: getAlternateLanguages(translations),
+    },
+    openGraph: {
+      title: page.title.rendered,
+      description: description,
+      type: "article",
+      url,
+      images: [
+        {
+          url: ogUrl,
+          width: 1200,
+          height: 630,
+          alt: page.title.rendered,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: page.title.rendered,
+      description: description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default async function Page({
+  params,
+}: {
+  params: Promise<{ path: string[] }>;
+}) {
+  const { path } = await params;
+  const [resolved, hierarchy] = await Promise.all([
+    getPageByPath(path),
+    getPageHierarchy(),
+  ]);
+
+  if (!resolved) {
+    notFound();
+  }
+
+  const { page, ancestors } = resolved;
+  const locale = await getLocale();
+
+  if (resolved.path.join("/") !== path.join("/")) {
+    // `/pages/{slug}` links predate nested URLs, send them to the full path.
+    // Any other mismatch, e.g. `/pages/wrong-parent/team`, does not exist.
+    if (path.length === 1) {
+      permanentRedirect(
+        localizePath(`/pages/${resolved.path.join("/")}`, locale)
+      );
+    }
+    notFound();
+  }
+
+  const translations = await getPageTranslationPaths(
+    page,
+    `/pages/${resolved.path.join("/")}`
+  );
+  const tree = buildPageTree(hierarchy);
+  const current = findPageNode(tree, page.id);
+  const parent = page.parent ? findPageNode(tree, page.parent) : undefined;
+  const siblings = parent ? parent.children : tree;
+
+  const breadcrumbs = [
+    { title: "Pages", href: "/pages" },
+    ...ancestors.map((ancestor) => ({
+      title: ancestor.title.rendered,
+      href: findPageNode(tree, ancestor.id)?.href,
+    })),
+    { title: page.title.rendered },
+  ];
+
+  return (
+    <Section>
+      <Container>
+        <PageBreadcrumbs items={breadcrumbs} />
+        <div className="grid gap-12 md:grid-cols-[1fr_220px]">
+          <Prose>
+            <h2
+              dangerouslySetInnerHTML={{
+                __html: sanitizeInlineHtml(page.title.rendered),
+              }}
+            />
+            <TranslationLinks paths={translations} locale={locale} />
+            <div>
+              <HtmlContent html={sanitizeHtml(page.content.rendered)} />
+            </div>
+          </Prose>
+          {current && (
+            <PageSidebar
+              parent={parent}
+              siblings={siblings}
+              current={current}
+            />
+          )}
+        </div>
+      </Container>
+    </Section>
+  );
+}
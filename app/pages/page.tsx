@@ -1,8 +1,9 @@
-import { getAllPages } from "@/lib/wordpress";
+import { getPageHierarchy } from "@/lib/wordpress";
+import { buildPageTree } from "@/lib/page-tree";
+import { PageTree } from "@/components/pages/page-tree";
 import { Section, Container, Prose } from "@/components/craft";
 import { Metadata } from "next";
 import BackButton from "@/components/back";
-import Link from "next/link";
 
 export const metadata: Metadata = {
   title: "All Pages",
@@ -13,20 +14,14 @@ export const metadata: Metadata = {
 };
 
 export default async function Page() {
-  const pages = await getAllPages();
+  const tree = buildPageTree(await getPageHierarchy());
 
   return (
     <Section>
       <Container className="space-y-6">
         <Prose className="mb-8">
           <h2>All Pages</h2>
-          <ul className="grid">
-            {pages.map((page: any) => (
-              <li key={page.id}>
-                <Link href={`/pages/${page.slug}`}>{page.title.rendered}</Link>
-              </li>
-            ))}
-          </ul>
+          <PageTree nodes={tree} className="not-prose" />
         </Prose>
         <BackButton />
       </Container>
@@ -0,0 +1,141 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { revalidateTag } from "next/cache";
+import { z } from "zod";
+
+import {
+  createComment,
+  getPostById,
+  getProtectedPostById,
+} from "@/lib/wordpress";
+import { signValue } from "@/lib/signed-cookie";
+import {
+  getPendingCommentIds,
+  getPendingCookieName,
+} from "./pending-comments";
+import {
+  getPostPassword,
+  getPostPasswordCookieName,
+  signPostPassword,
+} from "./post-password";
+
+const commentSchema = z.object({
+  postId: z.number().int().positive(),
+  parent: z.number().int().nonnegative().optional(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().email("Enter a valid email address"),
+  url: z.string().trim().url("Enter a valid URL").or(z.literal("")).optional(),
+  content: z.string().trim().min(1, "Comment is required").max(5000),
+});
+
+export type CommentFormValues = z.infer<typeof commentSchema>;
+
+export type CommentActionResult =
+  | { success: true; pending: boolean }
+  | { success: false; error: string };
+
+export async function submitComment(
+  values: CommentFormValues
+): Promise<CommentActionResult> {
+  const parsed = commentSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { postId, parent, name, email, url, content } = parsed.data;
+
+  try {
+    const post = await getPostById(postId);
+
+    if (post.comment_status !== "open") {
+      return { success: false, error: "Comments are closed for this post" };
+    }
+
+    const comment = await createComment({
+      post: postId,
+      parent,
+      author_name: name,
+      author_email: email,
+      author_url: url || undefined,
+      content,
+      password: (await getPostPassword(postId)) ?? undefined,
+    });
+
+    if (comment.status === "approved") {
+      revalidateTag(`comments-${postId}`);
+      return { success: true, pending: false };
+    }
+
+    // Remember held comments so only their author sees them
+    const pendingIds = await getPendingCommentIds(postId);
+    const cookieStore = await cookies();
+    cookieStore.set(
+      getPendingCookieName(postId),
+      signValue([...pendingIds, comment.id].join(",")),
+      {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 60 * 60 * 24 * 30,
+        path: "/",
+      }
+    );
+
+    return { success: true, pending: true };
+  } catch (error) {
+    console.error("Failed to submit comment:", error);
+    return { success: false, error: "Your comment could not be submitted" };
+  }
+}
+
+const unlockSchema = z.object({
+  postId: z.number().int().positive(),
+  password: z.string().min(1, "Password is required").max(255),
+});
+
+export type UnlockActionResult =
+  | { success: true }
+  | { success: false; error: string };
+
+export async function unlockPost(
+  values: z.infer<typeof unlockSchema>
+): Promise<UnlockActionResult> {
+  const parsed = unlockSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { postId, password } = parsed.data;
+
+  try {
+    const post = await getProtectedPostById(postId, password);
+
+    if (!post) {
+      return { success: false, error: "The password is incorrect" };
+    }
+
+    // Kept for 10 days, like the `wp-postpass` cookie WordPress sets. The
+    // name is keyed by post id, so it can live at the root like the pending
+    // comments cookie and reach the post under every locale prefix.
+    const cookieStore = await cookies();
+    cookieStore.set(
+      getPostPasswordCookieName(postId),
+      signPostPassword(postId, password),
+      {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 60 * 60 * 24 * 10,
+        path: "/",
+      }
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to unlock post:", error);
+    return { success: false, error: "The post could not be unlocked" };
+  }
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { RouteError } from "@/components/errors/route-error";
+
+export default function Error({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <RouteError
+      error={error}
+      reset={reset}
+      title="Couldn't load this post"
+      backHref="/posts"
+      backLabel="Back to Posts"
+    />
+  );
+}
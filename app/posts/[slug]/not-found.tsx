@@ -0,0 +1,12 @@
+import { RouteNotFound } from "@/components/errors/route-not-found";
+
+export default function NotFound() {
+  return (
+    <RouteNotFound
+      title="Post Not Found"
+      description="Sorry, the post you are looking for does not exist or has been moved."
+      backHref="/posts"
+      backLabel="Back to Posts"
+    />
+  );
+}
@@ -1,17 +1,54 @@
 import {
   getPostBySlug,
-  getFeaturedMediaById,
-  getAuthorById,
-  getCategoryById,
+  getProtectedPostById,
+  withPostRelations,
+  getBlocksByPostId,
+  getCommentsByPost,
 } from "@/lib/wordpress";
 
 import { Section, Container, Article, Prose } from "@/components/craft";
+import { BlockRenderer } from "@/components/blocks/block-renderer";
+import { HtmlContent } from "@/components/content/html-content";
+import { JsonLd } from "@/components/content/json-ld";
+import { TranslationLinks } from "@/components/content/translation-links";
+import { Comments } from "@/components/posts/comments";
+import { PasswordForm } from "@/components/posts/password-form";
+import { RelatedPosts } from "@/components/posts/related-posts";
+import { TableOfContents } from "@/components/posts/table-of-contents";
+import { getPendingCommentIds } from "./pending-comments";
+import { getPostPassword } from "./post-password";
 import { Metadata } from "next";
 import { badgeVariants } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import {
+  addBlockHeadingAnchors,
+  addHeadingAnchors,
+  buildTableOfContents,
+  getReadingTime,
+} from "@/lib/content";
+import { getLinkResolver, rewriteBlockLinks } from "@/lib/content-links";
+import { localizePath } from "@/lib/i18n";
+import { getOgImageUrl } from "@/lib/og";
+import { getLocale } from "@/lib/request-locale";
+import {
+  getAlternateLanguages,
+  getPostTranslationPaths,
+} from "@/lib/translations";
+import {
+  sanitizeBlocks,
+  sanitizeHtml,
+  sanitizeInlineHtml,
+} from "@/lib/sanitize";
+import {
+  getArticleSchema,
+  getBreadcrumbListSchema,
+  getSchemaSite,
+} from "@/lib/structured-data";
 import { siteConfig } from "@/site.config";
 
 import Link from "next/link";
+import { draftMode } from "next/headers";
+import { notFound } from "next/navigation";
 import Balancer from "react-wrap-balancer";
 
 export async function generateMetadata({
@@ -26,23 +63,46 @@ export async function generateMetadata({
     return {};
   }
 
-  const ogUrl = new URL(`${siteConfig.site_domain}/api/og`);
-  ogUrl.searchParams.append("title", post.title.rendered);
+  const [locale, translations, { relations }] = await Promise.all([
+    getLocale(),
+    getPostTranslationPaths(post),
+    withPostRelations(post),
+  ]);
+  const url = `${siteConfig.site_domain}${translations[locale]}`;
+
   // Strip HTML tags for description
   const description = post.excerpt.rendered.replace(/<[^>]*>/g, "").trim();
-  ogUrl.searchParams.append("description", description);
+  const ogUrl = getOgImageUrl({
+    template: "post",
+    locale,
+    title: post.title.rendered,
+    description,
+    image: relations.featuredMedia?.source_url,
+    label: relations.categories[0]?.name,
+    author: relations.author?.name,
+    avatar: relations.author?.avatar_urls?.["96"],
+    date: new Date(post.date).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+  });
 
   return {
     title: post.title.rendered,
     description: description,
+    alternates: {
+      canonical: url,
+      languages: getAlternateLanguages(translations),
+    },
     openGraph: {
       title: post.title.rendered,
       description: description,
       type: "article",
-      url: `${siteConfig.site_domain}/posts/${post.slug}`,
+      url,
       images: [
         {
-          url: ogUrl.toString(),
+          url: ogUrl,
           width: 1200,
           height: 630,
           alt: post.title.rendered,
@@ -53,7 +113,7 @@ export async function generateMetadata({
       card: "summary_large_image",
       title: post.title.rendered,
       description: description,
-      images: [ogUrl.toString()],
+      images: [ogUrl],
     },
   };
 }
@@ -64,48 +124,131 @@ export default async function Page({
   params: Promise<{ slug: string }>;
 }) {
   const { slug } = await params;
-  const post = await getPostBySlug(slug);
-  console.log('post.content.rendered: ', post.content.rendered);
-  const featuredMedia = await getFeaturedMediaById(post.featured_media);
-  const author = await getAuthorById(post.author);
+  const postData = await getPostBySlug(slug);
+
+  if (!postData) {
+    notFound();
+  }
+
+  // Protected posts stay locked until the visitor's cookie holds a password
+  // WordPress accepts. Editors previewing the post see it unlocked.
+  const { isEnabled: isPreview } = await draftMode();
+  const isProtected = postData.content.protected && !isPreview;
+  const password = isProtected ? await getPostPassword(postData.id) : null;
+  const unlocked = password
+    ? await getProtectedPostById(postData.id, password)
+    : null;
+  const isLocked = isProtected && !unlocked;
+
+  const post = await withPostRelations(unlocked ?? postData);
+  const { author, featuredMedia } = post.relations;
+  const category = post.relations.categories[0];
   const date = new Date(post.date).toLocaleDateString("en-US", {
     month: "long",
     day: "numeric",
     year: "numeric",
   });
-  const category = await getCategoryById(post.categories[0]);
+  // Blocks are cached, so protected posts render their unlocked HTML instead
+  const [locale, translations] = await Promise.all([
+    getLocale(),
+    getPostTranslationPaths(post),
+  ]);
+  const [blocks, comments] = await Promise.all([
+    isProtected ? null : getBlocksByPostId(post.id),
+    isLocked
+      ? []
+      : getCommentsByPost(
+          post.id,
+          await getPendingCommentIds(post.id),
+          unlocked ? password! : undefined
+        ).catch((error) => {
+          // e.g. comments closed to the REST API; the post renders without them
+          console.error("Failed to fetch comments:", error);
+          return null;
+        }),
+  ]);
+  const content = blocks
+    ? addBlockHeadingAnchors(
+        rewriteBlockLinks(sanitizeBlocks(blocks), await getLinkResolver())
+      )
+    : addHeadingAnchors(sanitizeHtml(post.content.rendered));
+  const toc = buildTableOfContents(content.headings);
+  const readingTime = getReadingTime(post.content.rendered);
+  const site = getSchemaSite();
 
   return (
     <Section>
+      <JsonLd
+        data={[
+          getArticleSchema(post, {
+            url: `${site.url}${translations[locale]}`,
+            locale,
+            site,
+          }),
+          getBreadcrumbListSchema(
+            [
+              { title: "Posts", href: "/posts" },
+              ...(category
+                ? [
+                    {
+                      title: category.name,
+                      href: `/posts/categories/${category.slug}`,
+                    },
+                  ]
+                : []),
+              { title: post.title.rendered },
+            ],
+            `${site.url}${localizePath("/", locale)}`
+          ),
+        ]}
+      />
       <Container>
         <Prose>
           <h1>
             <Balancer>
               <span
-                dangerouslySetInnerHTML={{ __html: post.title.rendered }}
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeInlineHtml(post.title.rendered),
+                }}
               ></span>
             </Balancer>
           </h1>
           <div className="flex justify-between items-center gap-4 text-sm mb-4">
             <h5>
-              Published {date} by{" "}
-              {author.name && (
+              Published {date}
+              {author?.name && (
                 <span>
-                  <a href={`/posts/?author=${author.id}`}>{author.name}</a>{" "}
+                  {" "}
+                  by{" "}
+                  <a href={localizePath(`/authors/${author.slug}`, locale)}>
+                    {author.name}
+                  </a>{" "}
+                </span>
+              )}
+              {!isLocked && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {readingTime.minutes} min read
                 </span>
               )}
             </h5>
 
-            <Link
-              href={`/posts/?category=${category.id}`}
-              className={cn(
-                badgeVariants({ variant: "outline" }),
-                "!no-underline"
-              )}
-            >
-              {category.name}
-            </Link>
+            {category && (
+              <Link
+                href={localizePath(
+                  `/posts/categories/${category.slug}`,
+                  locale
+                )}
+                className={cn(
+                  badgeVariants({ variant: "outline" }),
+                  "!no-underline"
+                )}
+              >
+                {category.name}
+              </Link>
+            )}
           </div>
+          <TranslationLinks paths={translations} locale={locale} />
           {featuredMedia?.source_url && (
             <div className="h-96 my-12 md:h-[500px] overflow-hidden flex items-center justify-center border rounded-lg bg-accent/25">
               {/* eslint-disable-next-line */}
@@ -118,7 +261,34 @@ export default async function Page({
           )}
         </Prose>
 
-        <Article dangerouslySetInnerHTML={{ __html: post.content.rendered }} />
+        {/* The table of contents sits beside the article on wide screens */}
+        <div
+          className={cn(
+            toc.length > 1 &&
+              "xl:grid xl:grid-cols-[minmax(0,1fr)_240px] xl:gap-12"
+          )}
+        >
+          {isLocked ? (
+            <PasswordForm postId={post.id} />
+          ) : "blocks" in content ? (
+            <Article className="[&_:is(h2,h3,h4)]:scroll-mt-24">
+              <BlockRenderer blocks={content.blocks} />
+            </Article>
+          ) : (
+            <Article className="[&_:is(h2,h3,h4)]:scroll-mt-24">
+              <HtmlContent html={content.html} />
+            </Article>
+          )}
+          {toc.length > 1 && (
+            <div className="hidden xl:block">
+              <TableOfContents items={toc} />
+            </div>
+          )}
+        </div>
+
+        <RelatedPosts postId={post.id} />
+
+        {!isLocked && comments && <Comments post={post} comments={comments} />}
       </Container>
     </Section>
   );
@@ -0,0 +1,17 @@
+import { cookies } from "next/headers";
+
+import { verifySignedValue } from "@/lib/signed-cookie";
+
+// Cookie holding the ids of the visitor's comments awaiting moderation
+export function getPendingCookieName(postId: number) {
+  return `wp_pending_comments_${postId}`;
+}
+
+export async function getPendingCommentIds(postId: number): Promise<number[]> {
+  const cookieStore = await cookies();
+  const value = verifySignedValue(
+    cookieStore.get(getPendingCookieName(postId))?.value
+  );
+
+  return value ? value.split(",").map(Number).filter(Boolean) : [];
+}
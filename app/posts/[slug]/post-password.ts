@@ -0,0 +1,26 @@
+import { cookies } from "next/headers";
+
+import { signValue, verifySignedValue } from "@/lib/signed-cookie";
+
+// Cookie holding the password of a protected post the visitor unlocked. It is
+// set on `/` so it reaches the post under every locale prefix, which also sends
+// it with every other page; it is httpOnly and only this post's page reads it.
+export function getPostPasswordCookieName(postId: number) {
+  return `wp_post_password_${postId}`;
+}
+
+// The value is signed along with the post id, so it can't be copied over to
+// another post's cookie
+export function signPostPassword(postId: number, password: string) {
+  return signValue(`${postId}:${password}`);
+}
+
+export async function getPostPassword(postId: number): Promise<string | null> {
+  const cookieStore = await cookies();
+  const value = verifySignedValue(
+    cookieStore.get(getPostPasswordCookieName(postId))?.value
+  );
+  const prefix = `${postId}:`;
+
+  return value?.startsWith(prefix) ? value.slice(prefix.length) : null;
+}
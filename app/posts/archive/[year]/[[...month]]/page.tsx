@@ -0,0 +1,135 @@
+import {
+  getPostArchiveMonths,
+  getPostsByPeriod,
+  withRelations,
+} from "@/lib/wordpress";
+
+import { PostArchive } from "@/components/posts/post-archive";
+import { ArchiveWidget } from "@/components/posts/archive-widget";
+import { PageBreadcrumbs } from "@/components/pages/page-breadcrumbs";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/site.config";
+import { getOgImageUrl } from "@/lib/og";
+import { getLocale } from "@/lib/request-locale";
+import {
+  ArchivePeriod,
+  formatPeriod,
+  getPeriodPath,
+  parsePeriod,
+} from "@/lib/post-archives";
+
+export const revalidate = 600;
+
+type Params = Promise<{ year: string; month?: string[] }>;
+
+// `/posts/archive/2024` or `/posts/archive/2024/05`
+async function getPeriod(params: Params): Promise<ArchivePeriod | null> {
+  const { year, month = [] } = await params;
+  return month.length > 1 ? null : parsePeriod(year, month[0]);
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const period = await getPeriod(params);
+
+  if (!period) {
+    return {};
+  }
+
+  const title = `Posts from ${formatPeriod(period)}`;
+  const description = `Browse all posts published in ${formatPeriod(period)}`;
+  const path = getPeriodPath(period);
+  const ogUrl = getOgImageUrl({
+    title,
+    description,
+    locale: await getLocale(),
+  });
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: path,
+    },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: `${siteConfig.site_domain}${path}`,
+      images: [{ url: ogUrl, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const period = await getPeriod(params);
+  const { page: pageParam } = await searchParams;
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+
+  if (!period) {
+    notFound();
+  }
+
+  const [posts, months] = await Promise.all([
+    getPostsByPeriod(period, { page }),
+    // The widget is optional, the archive still renders without it
+    getPostArchiveMonths().catch((error) => {
+      console.error("Failed to fetch archive months:", error);
+      return [];
+    }),
+  ]);
+
+  // Periods without posts, e.g. a future year, don't exist
+  if (posts.total === 0) {
+    notFound();
+  }
+
+  const items = await withRelations(posts.items);
+
+  return (
+    <PostArchive
+      label="Archive"
+      title={formatPeriod(period)}
+      header={
+        <div className="space-y-6">
+          <PageBreadcrumbs
+            items={[
+              { title: "Posts", href: "/posts" },
+              ...(period.month
+                ? [
+                    {
+                      title: String(period.year),
+                      href: getPeriodPath({ year: period.year }),
+                    },
+                  ]
+                : []),
+              { title: formatPeriod(period) },
+            ]}
+          />
+          <ArchiveWidget months={months} current={period} />
+        </div>
+      }
+      posts={items}
+      total={posts.total}
+      currentPage={page}
+      totalPages={posts.totalPages}
+      basePath={getPeriodPath(period)}
+    />
+  );
+}
@@ -3,6 +3,8 @@ import { Section, Container, Prose } from "@/components/craft";
 import { Metadata } from "next";
 import BackButton from "@/components/back";
 import Link from "next/link";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
 
 export const metadata: Metadata = {
   title: "All Authors",
@@ -13,7 +15,7 @@ export const metadata: Metadata = {
 };
 
 export default async function Page() {
-  const authors = await getAllAuthors();
+  const [authors, locale] = await Promise.all([getAllAuthors(), getLocale()]);
 
   return (
     <Section>
@@ -23,7 +25,9 @@ export default async function Page() {
           <ul className="grid">
             {authors.map((author: any) => (
               <li key={author.id}>
-                <Link href={`/posts/?author=${author.id}`}>{author.name}</Link>
+                <Link href={localizePath(`/authors/${author.slug}`, locale)}>
+                  {author.name}
+                </Link>
               </li>
             ))}
           </ul>
@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { getAllPosts, getCategoryBySlug } from "@/lib/wordpress";
+import { createFeedResponse, isFeedFormat } from "@/lib/feeds";
+import { siteConfig } from "@/site.config";
+
+// Regenerated hourly, or when the `posts` tag is revalidated
+export const revalidate = 3600;
+
+// `/posts/categories/{slug}/feed.xml`, `atom.xml` and `feed.json`
+export const GET = withStaleWarning(async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const category = isFeedFormat(feed) ? await getCategoryBySlug(slug) : null;
+
+  if (!isFeedFormat(feed) || !category) {
+    notFound();
+  }
+
+  const posts = await getAllPosts({ category: String(category.id) });
+
+  return createFeedResponse(feed, posts, {
+    title: `${category.name} - ${siteConfig.site_name}`,
+    description: category.description || `Posts in ${category.name}`,
+    path: `/posts/categories/${category.slug}`,
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  getAllCategories,
+  getCategoryBySlug,
+  getPostsByCategorySlug,
+  withRelations,
+} from "@/lib/wordpress";
+
+import { PostArchive } from "@/components/posts/post-archive";
+import { PageBreadcrumbs } from "@/components/pages/page-breadcrumbs";
+import { Badge } from "@/components/ui/badge";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/site.config";
+import { getFeedAlternates } from "@/lib/feeds";
+import { getOgImageUrl } from "@/lib/og";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { Category } from "@/lib/wordpress.d";
+
+import Link from "next/link";
+
+export const revalidate = 600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const category = await getCategoryBySlug(slug);
+
+  if (!category) {
+    return {};
+  }
+
+  const title = `${category.name} Posts`;
+  const description =
+    category.description || `Browse all posts in ${category.name}`;
+  const ogUrl = getOgImageUrl({
+    title,
+    description,
+    locale: await getLocale(),
+  });
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/posts/categories/${category.slug}`,
+      types: getFeedAlternates(`/posts/categories/${category.slug}`, title),
+    },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: `${siteConfig.site_domain}/posts/categories/${category.slug}`,
+      images: [{ url: ogUrl, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogUrl],
+    },
+  };
+}
+
+// Parent categories of a category, from the top level down
+function getCategoryAncestors(category: Category, categories: Category[]) {
+  const byId = new Map(categories.map((item) => [item.id, item]));
+  const ancestors: Category[] = [];
+  let parent = byId.get(category.parent);
+
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    parent = byId.get(parent.parent);
+  }
+
+  return ancestors;
+}
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const { slug } = await params;
+  const { page: pageParam } = await searchParams;
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+
+  const [category, posts, categories, locale] = await Promise.all([
+    getCategoryBySlug(slug),
+    getPostsByCategorySlug(slug, { page }),
+    getAllCategories(),
+    getLocale(),
+  ]);
+
+  if (!category) {
+    notFound();
+  }
+
+  const items = await withRelations(posts.items);
+  const ancestors = getCategoryAncestors(category, categories);
+  const subcategories = categories.filter(
+    (item) => item.parent === category.id
+  );
+
+  return (
+    <PostArchive
+      label="Category"
+      title={category.name}
+      description={category.description}
+      header={
+        <>
+          {ancestors.length > 0 && (
+            <PageBreadcrumbs
+              items={[
+                { title: "Categories", href: "/posts/categories" },
+                ...ancestors.map((ancestor) => ({
+                  title: ancestor.name,
+                  href: `/posts/categories/${ancestor.slug}`,
+                })),
+                { title: category.name },
+              ]}
+            />
+          )}
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">Subcategories:</span>
+              {subcategories.map((subcategory) => (
+                <Link
+                  key={subcategory.id}
+                  href={localizePath(
+                    `/posts/categories/${subcategory.slug}`,
+                    locale
+                  )}
+                >
+                  <Badge variant="outline">
+                    {subcategory.name}{" "}
+                    <span className="ml-1 text-muted-foreground">
+                      {subcategory.count}
+                    </span>
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+        </>
+      }
+      posts={items}
+      total={posts.total}
+      currentPage={page}
+      totalPages={posts.totalPages}
+      basePath={`/posts/categories/${category.slug}`}
+    />
+  );
+}
@@ -1,6 +1,9 @@
 import { getAllCategories } from "@/lib/wordpress";
 import { Section, Container, Prose } from "@/components/craft";
 import { Metadata } from "next";
+import { Category } from "@/lib/wordpress.d";
+import { Locale, localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
 import BackButton from "@/components/back";
 import Link from "next/link";
 
@@ -13,25 +16,66 @@ export const metadata: Metadata = {
 };
 
 export default async function Page() {
-  const categories = await getAllCategories();
+  const [categories, locale] = await Promise.all([
+    getAllCategories(),
+    getLocale(),
+  ]);
+  // Categories whose parent is missing are shown at the top level
+  const ids = new Set(categories.map((category) => category.id));
+  const roots = categories.filter((category) => !ids.has(category.parent));
 
   return (
     <Section>
       <Container className="space-y-6">
         <Prose className="mb-8">
           <h2>All Categories</h2>
-          <ul className="grid">
-            {categories.map((category: any) => (
-              <li key={category.id}>
-                <Link href={`/posts/?category=${category.id}`}>
-                  {category.name}
-                </Link>
-              </li>
-            ))}
-          </ul>
+          <CategoryList
+            categories={roots}
+            allCategories={categories}
+            locale={locale}
+          />
         </Prose>
         <BackButton />
       </Container>
     </Section>
   );
 }
+
+// Nested list of categories, following `Category.parent`
+function CategoryList({
+  categories,
+  allCategories,
+  locale,
+}: {
+  categories: Category[];
+  allCategories: Category[];
+  locale: Locale;
+}) {
+  return (
+    <ul className="grid">
+      {categories.map((category) => {
+        const children = allCategories.filter(
+          (child) => child.parent === category.id
+        );
+
+        return (
+          <li key={category.id}>
+            <Link
+              href={localizePath(`/posts/categories/${category.slug}`, locale)}
+            >
+              {category.name}
+            </Link>{" "}
+            <span className="text-muted-foreground">({category.count})</span>
+            {children.length > 0 && (
+              <CategoryList
+                categories={children}
+                allCategories={allCategories}
+                locale={locale}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,27 +1,22 @@
 import {
-  getAllPosts,
+  getPosts,
+  withRelations,
   getAllAuthors,
   getAllTags,
   getAllCategories,
+  getPostArchiveMonths,
   searchAuthors,
   searchTags,
   searchCategories,
 } from "@/lib/wordpress";
 
-import {
-  Pagination,
-  PaginationContent,
-  PaginationItem,
-  PaginationLink,
-  PaginationNext,
-  PaginationPrevious,
-} from "@/components/ui/pagination";
-
 import { Section, Container, Prose } from "@/components/craft";
 import { Metadata } from "next";
 import { PostCard } from "@/components/posts/post-card";
 import { FilterPosts } from "@/components/posts/filter";
 import { SearchInput } from "@/components/posts/search-input";
+import { PostsPagination } from "@/components/posts/posts-pagination";
+import { getPeriodBounds, parsePeriod } from "@/lib/post-archives";
 
 export const metadata: Metadata = {
   title: "Blog Posts",
@@ -40,38 +35,37 @@ export default async function Page({
     category?: string;
     page?: string;
     search?: string;
+    period?: string;
   }>;
 }) {
   const params = await searchParams;
   const { author, tag, category, page: pageParam, search } = params;
+  // `period` is a year or month, e.g. `2024-05`; invalid values are ignored
+  const [year, month] = params.period?.split("-") ?? [];
+  const parsedPeriod = parsePeriod(year, month);
+  const period = parsedPeriod ? params.period : undefined;
+  const dates = parsedPeriod ? getPeriodBounds(parsedPeriod) : {};
+
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+  const postsPerPage = 9;
 
   // Fetch data based on search parameters
-  const [posts, authors, tags, categories] = await Promise.all([
-    getAllPosts({ author, tag, category, search }),
+  const [posts, authors, tags, categories, months] = await Promise.all([
+    getPosts({
+      page,
+      perPage: postsPerPage,
+      author,
+      tag,
+      category,
+      search,
+      ...dates,
+    }),
     search ? searchAuthors(search) : getAllAuthors(),
     search ? searchTags(search) : getAllTags(),
     search ? searchCategories(search) : getAllCategories(),
+    getPostArchiveMonths().catch(() => []),
   ]);
-
-  // Handle pagination
-  const page = pageParam ? parseInt(pageParam, 10) : 1;
-  const postsPerPage = 9;
-  const totalPages = Math.ceil(posts.length / postsPerPage);
-  const paginatedPosts = posts.slice(
-    (page - 1) * postsPerPage,
-    page * postsPerPage
-  );
-
-  // Create pagination URL helper
-  const createPaginationUrl = (newPage: number) => {
-    const params = new URLSearchParams();
-    if (newPage > 1) params.set("page", newPage.toString());
-    if (category) params.set("category", category);
-    if (author) params.set("author", author);
-    if (tag) params.set("tag", tag);
-    if (search) params.set("search", search);
-    return `/posts${params.toString() ? `?${params.toString()}` : ""}`;
-  };
+  const items = await withRelations(posts.items);
 
   return (
     <Section>
@@ -80,7 +74,7 @@ export default async function Page({
           <Prose>
             <h2>All Posts</h2>
             <p className="text-muted-foreground">
-              {posts.length} {posts.length === 1 ? "post" : "posts"} found
+              {posts.total} {posts.total === 1 ? "post" : "posts"} found
               {search && " matching your search"}
             </p>
           </Prose>
@@ -92,15 +86,17 @@ export default async function Page({
               authors={authors}
               tags={tags}
               categories={categories}
+              months={months}
               selectedAuthor={author}
               selectedTag={tag}
               selectedCategory={category}
+              selectedPeriod={period}
             />
           </div>
 
-          {paginatedPosts.length > 0 ? (
+          {items.length > 0 ? (
             <div className="grid md:grid-cols-3 gap-4">
-              {paginatedPosts.map((post) => (
+              {items.map((post) => (
                 <PostCard key={post.id} post={post} />
               ))}
             </div>
@@ -110,33 +106,12 @@ export default async function Page({
             </div>
           )}
 
-          {totalPages > 1 && (
-            <Pagination>
-              <PaginationContent>
-                <PaginationItem>
-                  <PaginationPrevious
-                    className={
-                      page <= 1 ? "pointer-events-none opacity-50" : ""
-                    }
-                    href={createPaginationUrl(page - 1)}
-                  />
-                </PaginationItem>
-                <PaginationItem>
-                  <PaginationLink href={createPaginationUrl(page)}>
-                    {page}
-                  </PaginationLink>
-                </PaginationItem>
-                <PaginationItem>
-                  <PaginationNext
-                    className={
-                      page >= totalPages ? "pointer-events-none opacity-50" : ""
-                    }
-                    href={createPaginationUrl(page + 1)}
-                  />
-                </PaginationItem>
-              </PaginationContent>
-            </Pagination>
-          )}
+          <PostsPagination
+            currentPage={page}
+            totalPages={posts.totalPages}
+            basePath="/posts"
+            searchParams={{ category, author, tag, search, period }}
+          />
         </div>
       </Container>
     </Section>
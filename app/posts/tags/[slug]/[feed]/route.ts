@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { getAllPosts, getTagBySlug } from "@/lib/wordpress";
+import { createFeedResponse, isFeedFormat } from "@/lib/feeds";
+import { siteConfig } from "@/site.config";
+
+// Regenerated hourly, or when the `posts` tag is revalidated
+export const revalidate = 3600;
+
+// `/posts/tags/{slug}/feed.xml`, `atom.xml` and `feed.json`
+export const GET = withStaleWarning(async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const tag = isFeedFormat(feed) ? await getTagBySlug(slug) : null;
+
+  if (!isFeedFormat(feed) || !tag) {
+    notFound();
+  }
+
+  const posts = await getAllPosts({ tag: String(tag.id) });
+
+  return createFeedResponse(feed, posts, {
+    title: `${tag.name} - ${siteConfig.site_name}`,
+    description: tag.description || `Posts tagged ${tag.name}`,
+    path: `/posts/tags/${tag.slug}`,
+  });
+});
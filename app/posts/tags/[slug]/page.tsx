@@ -0,0 +1,94 @@
+import {
+  getTagBySlug,
+  getPostsByTagSlug,
+  withRelations,
+} from "@/lib/wordpress";
+
+import { PostArchive } from "@/components/posts/post-archive";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/site.config";
+import { getFeedAlternates } from "@/lib/feeds";
+import { getOgImageUrl } from "@/lib/og";
+import { getLocale } from "@/lib/request-locale";
+
+export const revalidate = 600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const tag = await getTagBySlug(slug);
+
+  if (!tag) {
+    return {};
+  }
+
+  const title = `Posts tagged ${tag.name}`;
+  const description = tag.description || `Browse all posts tagged ${tag.name}`;
+  const ogUrl = getOgImageUrl({
+    title,
+    description,
+    locale: await getLocale(),
+  });
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/posts/tags/${tag.slug}`,
+      types: getFeedAlternates(`/posts/tags/${tag.slug}`, title),
+    },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: `${siteConfig.site_domain}/posts/tags/${tag.slug}`,
+      images: [{ url: ogUrl, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const { slug } = await params;
+  const { page: pageParam } = await searchParams;
+  const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+
+  const [tag, posts] = await Promise.all([
+    getTagBySlug(slug),
+    getPostsByTagSlug(slug, { page }),
+  ]);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const items = await withRelations(posts.items);
+
+  return (
+    <PostArchive
+      label="Tag"
+      title={tag.name}
+      description={tag.description}
+      posts={items}
+      total={posts.total}
+      currentPage={page}
+      totalPages={posts.totalPages}
+      basePath={`/posts/tags/${tag.slug}`}
+    />
+  );
+}
@@ -3,6 +3,8 @@ import { Section, Container, Prose } from "@/components/craft";
 import { Metadata } from "next";
 import BackButton from "@/components/back";
 import Link from "next/link";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
 
 export const metadata: Metadata = {
   title: "All Tags",
@@ -13,7 +15,7 @@ export const metadata: Metadata = {
 };
 
 export default async function Page() {
-  const tags = await getAllTags();
+  const [tags, locale] = await Promise.all([getAllTags(), getLocale()]);
 
   return (
     <Section>
@@ -23,7 +25,9 @@ export default async function Page() {
           <ul className="grid">
             {tags.map((tag: any) => (
               <li key={tag.id}>
-                <Link href={`/posts/?tag=${tag.id}`}>{tag.name}</Link>
+                <Link href={localizePath(`/posts/tags/${tag.slug}`, locale)}>
+                  {tag.name}
+                </Link>
               </li>
             ))}
           </ul>
@@ -0,0 +1,9 @@
+import { MetadataRoute } from "next";
+import { siteConfig } from "@/site.config";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: "*", allow: "/" },
+    sitemap: `${siteConfig.site_domain}/sitemap_index.xml`,
+  };
+}
@@ -0,0 +1,191 @@
+import Image from "next/image";
+import Link from "next/link";
+import { Metadata } from "next";
+
+import { Section, Container, Prose } from "@/components/craft";
+import { Badge } from "@/components/ui/badge";
+import { SearchInput } from "@/components/posts/search-input";
+import { Highlight } from "@/components/search/highlight";
+import {
+  isSearchResultType,
+  searchResultLabels,
+  searchResultTypes,
+  searchSite,
+  UnifiedSearchResult,
+} from "@/lib/search";
+import { cn } from "@/lib/utils";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+
+export const metadata: Metadata = {
+  title: "Search",
+  description: "Search posts, pages, courses and products",
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; type?: string }>;
+}) {
+  const [{ q = "", type: typeParam }, locale] = await Promise.all([
+    searchParams,
+    getLocale(),
+  ]);
+  const type = isSearchResultType(typeParam) ? typeParam : undefined;
+
+  const { query, results, counts } = await searchSite(q, { locale });
+  const total = results.length;
+
+  const groups = searchResultTypes
+    .filter((resultType) => !type || resultType === type)
+    .map((resultType) => ({
+      type: resultType,
+      results: results.filter((result) => result.type === resultType),
+    }))
+    .filter((group) => group.results.length > 0);
+
+  const getFilterHref = (resultType?: string) => {
+    const params = new URLSearchParams({ q: query });
+    if (resultType) params.set("type", resultType);
+    return localizePath(`/search?${params.toString()}`, locale);
+  };
+
+  return (
+    <Section>
+      <Container>
+        <div className="space-y-8">
+          <Prose>
+            <h2>Search</h2>
+            {query && (
+              <p className="text-muted-foreground">
+                {total} {total === 1 ? "result" : "results"} for &ldquo;{query}
+                &rdquo;
+              </p>
+            )}
+          </Prose>
+
+          <SearchInput
+            defaultValue={query}
+            name="q"
+            placeholder="Search posts, pages, courses and products..."
+          />
+
+          {query && (
+            <div className="flex flex-wrap gap-2">
+              <FilterChip href={getFilterHref()} active={!type}>
+                All <span className="text-muted-foreground">{total}</span>
+              </FilterChip>
+              {searchResultTypes.map((resultType) => (
+                <FilterChip
+                  key={resultType}
+                  href={getFilterHref(resultType)}
+                  active={type === resultType}
+                  disabled={counts[resultType] === 0}
+                >
+                  {searchResultLabels[resultType]}{" "}
+                  <span className="text-muted-foreground">
+                    {counts[resultType]}
+                  </span>
+                </FilterChip>
+              ))}
+            </div>
+          )}
+
+          {query && groups.length === 0 && (
+            <div className="h-24 w-full border rounded-lg bg-accent/25 flex items-center justify-center">
+              <p>No results found</p>
+            </div>
+          )}
+
+          {groups.map((group) => (
+            <section key={group.type} className="space-y-4">
+              <h3 className="text-lg font-medium">
+                {searchResultLabels[group.type]}{" "}
+                <span className="text-muted-foreground">
+                  ({group.results.length})
+                </span>
+              </h3>
+              <div className="grid gap-3">
+                {group.results.map((result) => (
+                  <SearchResultItem
+                    key={result.id}
+                    result={result}
+                    query={query}
+                  />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      </Container>
+    </Section>
+  );
+}
+
+function FilterChip({
+  href,
+  active,
+  disabled,
+  children,
+}: {
+  href: string;
+  active: boolean;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  if (disabled) {
+    return (
+      <Badge variant="outline" className="opacity-50">
+        {children}
+      </Badge>
+    );
+  }
+
+  return (
+    <Link href={href} aria-current={active ? "page" : undefined}>
+      <Badge
+        variant={active ? "secondary" : "outline"}
+        className={cn(active && "border-primary")}
+      >
+        {children}
+      </Badge>
+    </Link>
+  );
+}
+
+function SearchResultItem({
+  result,
+  query,
+}: {
+  result: UnifiedSearchResult;
+  query: string;
+}) {
+  return (
+    <Link
+      href={result.url}
+      className="flex gap-4 border rounded-lg p-4 bg-accent/30 hover:bg-accent/75 transition-all group"
+    >
+      {result.image && (
+        <Image
+          src={result.image}
+          alt={result.title}
+          width={80}
+          height={80}
+          className="h-20 w-20 shrink-0 rounded-md border object-cover"
+        />
+      )}
+      <div className="space-y-1 min-w-0">
+        <p className="font-medium group-hover:underline decoration-muted-foreground underline-offset-4 decoration-dotted">
+          <Highlight text={result.title} query={query} />
+        </p>
+        {result.excerpt && (
+          <p className="text-sm text-muted-foreground line-clamp-2">
+            <Highlight text={result.excerpt} query={query} />
+          </p>
+        )}
+      </div>
+    </Link>
+  );
+}
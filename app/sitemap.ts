@@ -1,55 +1,23 @@
 import { MetadataRoute } from "next";
-import { getAllPosts } from "@/lib/wordpress";
-import { siteConfig } from "@/site.config";
+import { notFound } from "next/navigation";
+import { getSitemapEntries, getSitemapIds } from "@/lib/sitemap";
 
-export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const posts = await getAllPosts();
+// One sitemap per content type and chunk, served at `/sitemap/[id].xml` and
+// listed by the index at `/sitemap_index.xml`
+export async function generateSitemaps() {
+  return (await getSitemapIds()).map((id) => ({ id }));
+}
 
-  const staticUrls: MetadataRoute.Sitemap = [
-    {
-      url: `${siteConfig.site_domain}`,
-      lastModified: new Date(),
-      changeFrequency: "yearly",
-      priority: 1,
-    },
-    {
-      url: `${siteConfig.site_domain}/posts`,
-      lastModified: new Date(),
-      changeFrequency: "weekly",
-      priority: 0.8,
-    },
-    {
-      url: `${siteConfig.site_domain}/pages`,
-      lastModified: new Date(),
-      changeFrequency: "monthly",
-      priority: 0.5,
-    },
-    {
-      url: `${siteConfig.site_domain}/authors`,
-      lastModified: new Date(),
-      changeFrequency: "monthly",
-      priority: 0.5,
-    },
-    {
-      url: `${siteConfig.site_domain}/categories`,
-      lastModified: new Date(),
-      changeFrequency: "monthly",
-      priority: 0.5,
-    },
-    {
-      url: `${siteConfig.site_domain}/tags`,
-      lastModified: new Date(),
-      changeFrequency: "monthly",
-      priority: 0.5,
-    },
-  ];
+export default async function sitemap({
+  id,
+}: {
+  id: string;
+}): Promise<MetadataRoute.Sitemap> {
+  const entries = await getSitemapEntries(id);
 
-  const postUrls: MetadataRoute.Sitemap = posts.map((post) => ({
-    url: `${siteConfig.site_domain}/posts/${post.slug}`,
-    lastModified: new Date(post.modified),
-    changeFrequency: "weekly",
-    priority: 0.5,
-  }));
+  if (!entries) {
+    notFound();
+  }
 
-  return [...staticUrls, ...postUrls];
+  return entries;
 }
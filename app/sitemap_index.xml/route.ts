@@ -0,0 +1,25 @@
+import { withStaleWarning } from "@/lib/wordpress-fetch";
+import { getSitemapIds } from "@/lib/sitemap";
+import { siteConfig } from "@/site.config";
+
+// Regenerated hourly, like the child sitemaps' WordPress data
+export const revalidate = 3600;
+
+export const GET = withStaleWarning(async function GET() {
+  const ids = await getSitemapIds();
+  const sitemaps = ids
+    .map(
+      (id) =>
+        `  <sitemap>\n    <loc>${siteConfig.site_domain}/sitemap/${id}.xml</loc>\n  </sitemap>`
+    )
+    .join("\n");
+
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>
+`,
+    { headers: { "Content-Type": "application/xml; charset=utf-8" } }
+  );
+});
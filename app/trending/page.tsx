@@ -3,6 +3,8 @@ import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Metadata } from "next";
 import Link from "next/link";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
 
 export const metadata: Metadata = {
   title: "Trending Topics",
@@ -56,6 +58,7 @@ async function getTopicStats() {
 
 export default async function TrendingPage() {
   const { topics, recentPosts, totalPosts } = await getTopicStats();
+  const locale = await getLocale();
 
   return (
     <section className="py-12">
@@ -75,7 +78,7 @@ export default async function TrendingPage() {
               {topics.map((topic) => (
                 <Link 
                   key={`${topic.type}-${topic.id}`}
-                  href={`/posts/?${topic.type}=${topic.id}`}
+                  href={localizePath(`/posts/?${topic.type}=${topic.id}`, locale)}
                 >
                   <Card className="p-4 hover:bg-muted transition-colors">
                     <div className="flex justify-between items-start mb-2">
@@ -100,7 +103,7 @@ export default async function TrendingPage() {
               {recentPosts.map((post) => (
                 <Link 
                   key={post.id}
-                  href={`/posts/${post.slug}`}
+                  href={localizePath(`/posts/${post.slug}`, locale)}
                   className="block p-4 rounded-lg hover:bg-muted transition-colors"
                 >
                   <h3 className="font-medium mb-2">{post.title.rendered}</h3>
@@ -0,0 +1,116 @@
+import { getMediaByIds } from "@/lib/wordpress";
+import { EditorBlock } from "@/lib/wordpress.d";
+
+import {
+  BlockContext,
+  BlockProps,
+  ButtonBlock,
+  ButtonsBlock,
+  CodeBlock,
+  ColumnBlock,
+  ColumnsBlock,
+  EmbedBlock,
+  GalleryBlock,
+  HeadingBlock,
+  HTMLBlock,
+  ImageBlock,
+  ParagraphBlock,
+  QuoteBlock,
+  TableBlock,
+} from "./core-blocks";
+
+export type BlockComponent<
+  A extends Record<string, unknown> = Record<string, unknown>,
+> = (props: BlockProps<A>) => React.ReactNode | Promise<React.AwaitedReactNode>;
+
+// Registry of block name -> component, pre-filled with the core blocks
+const blockRegistry = new Map<string, BlockComponent>();
+
+// Register a component for a custom block, e.g. registerBlock("acme/hero", Hero).
+// Registering an existing name replaces the default component. Attributes come
+// from the post content as they are, so `A` describes them without checking.
+export function registerBlock<A extends Record<string, unknown>>(
+  name: string,
+  component: BlockComponent<A>
+) {
+  blockRegistry.set(name, component as BlockComponent);
+}
+
+registerBlock("core/paragraph", ParagraphBlock);
+registerBlock("core/heading", HeadingBlock);
+registerBlock("core/image", ImageBlock);
+registerBlock("core/gallery", GalleryBlock);
+registerBlock("core/quote", QuoteBlock);
+registerBlock("core/pullquote", QuoteBlock);
+registerBlock("core/code", CodeBlock);
+registerBlock("core/embed", EmbedBlock);
+registerBlock("core/columns", ColumnsBlock);
+registerBlock("core/column", ColumnBlock);
+registerBlock("core/buttons", ButtonsBlock);
+registerBlock("core/button", ButtonBlock);
+registerBlock("core/table", TableBlock);
+
+// Media ids of the image blocks, inner blocks included, e.g. gallery images
+function getImageIds(blocks: EditorBlock[]): number[] {
+  return blocks.flatMap((block) => {
+    const { id } = block.attributes;
+    return [
+      ...(block.name === "core/image" && typeof id === "number" ? [id] : []),
+      ...getImageIds(block.innerBlocks),
+    ];
+  });
+}
+
+// Fetches the media of every image block in one request, then renders the blocks
+export async function BlockRenderer({ blocks }: { blocks: EditorBlock[] }) {
+  const media = await getMediaByIds(getImageIds(blocks)).catch((error) => {
+    console.error("Failed to fetch block images:", error);
+    return [];
+  });
+
+  return (
+    <Blocks
+      blocks={blocks}
+      context={{ media: new Map(media.map((item) => [item.id, item])) }}
+    />
+  );
+}
+
+function Blocks({
+  blocks,
+  context,
+}: {
+  blocks: EditorBlock[];
+  context: BlockContext;
+}) {
+  return (
+    <>
+      {blocks.map((block) => (
+        <Block key={block.id} block={block} context={context} />
+      ))}
+    </>
+  );
+}
+
+function Block({
+  block,
+  context,
+}: {
+  block: EditorBlock;
+  context: BlockContext;
+}) {
+  const Component = blockRegistry.get(block.name);
+
+  // Unknown blocks fall back to their HTML, inner blocks included
+  if (!Component) {
+    return <HTMLBlock block={block} context={context} />;
+  }
+
+  return (
+    <Component block={block} context={context}>
+      {block.innerBlocks.length > 0 && (
+        <Blocks blocks={block.innerBlocks} context={context} />
+      )}
+    </Component>
+  );
+}
@@ -0,0 +1,456 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { ContentImage } from "@/components/content/content-image";
+import { getImageVariants } from "@/components/content/html-content";
+import { cn } from "@/lib/utils";
+import { getBlockHTML, getTagAttribute, getTagContent } from "@/lib/blocks";
+import { EditorBlock, FeaturedMedia } from "@/lib/wordpress.d";
+
+// Data fetched once for the whole post and shared by its blocks
+export interface BlockContext {
+  // Media library items of the image blocks, by id
+  media: Map<number, FeaturedMedia>;
+}
+
+// Props passed to every block component. `children` holds the rendered inner blocks.
+export interface BlockProps<
+  A extends Record<string, unknown> = Record<string, unknown>
+> {
+  block: EditorBlock & { attributes: A };
+  context: BlockContext;
+  children?: React.ReactNode;
+}
+
+// Attribute types for the core blocks
+type Align = "left" | "center" | "right" | "wide" | "full";
+
+interface ParagraphAttributes extends Record<string, unknown> {
+  align?: "left" | "center" | "right";
+  dropCap?: boolean;
+  className?: string;
+}
+
+interface HeadingAttributes extends Record<string, unknown> {
+  level?: 1 | 2 | 3 | 4 | 5 | 6;
+  textAlign?: "left" | "center" | "right";
+  anchor?: string;
+  className?: string;
+}
+
+interface ImageAttributes extends Record<string, unknown> {
+  id?: number;
+  align?: Align;
+  sizeSlug?: string;
+  linkDestination?: string;
+  className?: string;
+}
+
+interface GalleryAttributes extends Record<string, unknown> {
+  columns?: number;
+  imageCrop?: boolean;
+  className?: string;
+}
+
+interface QuoteAttributes extends Record<string, unknown> {
+  textAlign?: "left" | "center" | "right";
+  className?: string;
+}
+
+interface CodeAttributes extends Record<string, unknown> {
+  language?: string;
+  className?: string;
+}
+
+interface EmbedAttributes extends Record<string, unknown> {
+  url?: string;
+  type?: string;
+  providerNameSlug?: string;
+  className?: string;
+}
+
+interface ColumnsAttributes extends Record<string, unknown> {
+  isStackedOnMobile?: boolean;
+  verticalAlignment?: "top" | "center" | "bottom";
+  className?: string;
+}
+
+interface ColumnAttributes extends Record<string, unknown> {
+  width?: string;
+  verticalAlignment?: "top" | "center" | "bottom";
+  className?: string;
+}
+
+interface ButtonsAttributes extends Record<string, unknown> {
+  layout?: { justifyContent?: "left" | "center" | "right" | "space-between" };
+  className?: string;
+}
+
+interface ButtonAttributes extends Record<string, unknown> {
+  url?: string;
+  text?: string;
+  linkTarget?: string;
+  rel?: string;
+  className?: string;
+}
+
+interface TableAttributes extends Record<string, unknown> {
+  hasFixedLayout?: boolean;
+  className?: string;
+}
+
+const textAlignClasses = {
+  left: "text-left",
+  center: "text-center",
+  right: "text-right",
+};
+
+const alignClasses: Record<Align, string> = {
+  left: "float-left mr-6 max-w-[50%]",
+  center: "mx-auto",
+  right: "float-right ml-6 max-w-[50%]",
+  wide: "w-full",
+  full: "w-full",
+};
+
+export function ParagraphBlock({ block }: BlockProps<ParagraphAttributes>) {
+  const { align, dropCap, className } = block.attributes;
+  const content = getTagContent(block.innerHTML, "p") ?? block.innerHTML;
+
+  return (
+    <p
+      className={cn(
+        align && textAlignClasses[align],
+        dropCap &&
+          "first-letter:float-left first-letter:text-6xl first-letter:mr-2 first-letter:font-medium",
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: content }}
+    />
+  );
+}
+
+export function HeadingBlock({ block }: BlockProps<HeadingAttributes>) {
+  const { level = 2, textAlign, anchor, className } = block.attributes;
+  const Tag = `h${level}` as const;
+  const content = getTagContent(block.innerHTML, Tag) ?? block.innerHTML;
+
+  return (
+    <Tag
+      id={anchor ?? getTagAttribute(block.innerHTML, Tag, "id") ?? undefined}
+      className={cn(textAlign && textAlignClasses[textAlign], className)}
+      dangerouslySetInnerHTML={{ __html: content }}
+    />
+  );
+}
+
+// Media library images are served from the sizes WordPress generated, up to
+// the size picked in the editor. Other images keep their markup.
+export function ImageBlock({ block, context }: BlockProps<ImageAttributes>) {
+  const { id, align, sizeSlug, className } = block.attributes;
+  const src = getTagAttribute(block.innerHTML, "img", "src");
+  const href = getTagAttribute(block.innerHTML, "a", "href");
+  const caption = getTagContent(block.innerHTML, "figcaption");
+  const alt = getTagAttribute(block.innerHTML, "img", "alt");
+
+  if (!src) {
+    return null;
+  }
+
+  const media = id ? context.media.get(id) : undefined;
+  const details = media?.media_details;
+  const selected = (sizeSlug && details?.sizes?.[sizeSlug]) || details;
+
+  let image: React.ReactNode;
+  if (media && selected?.width && selected.height) {
+    image = (
+      <ContentImage
+        src={media.source_url}
+        alt={alt ?? media.alt_text ?? ""}
+        width={selected.width}
+        height={selected.height}
+        variants={getImageVariants(media, selected.width)}
+      />
+    );
+  } else {
+    const width = getTagAttribute(block.innerHTML, "img", "width");
+    const height = getTagAttribute(block.innerHTML, "img", "height");
+
+    image = (
+      // eslint-disable-next-line
+      <img
+        src={src}
+        alt={alt ?? ""}
+        width={width ? Number(width) : undefined}
+        height={height ? Number(height) : undefined}
+        loading="lazy"
+      />
+    );
+  }
+
+  return (
+    <figure className={cn(align && alignClasses[align], className)}>
+      {href ? <a href={href}>{image}</a> : image}
+      {caption && (
+        <figcaption dangerouslySetInnerHTML={{ __html: caption }} />
+      )}
+    </figure>
+  );
+}
+
+const galleryColumnClasses: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  3: "grid-cols-2 md:grid-cols-3",
+  4: "grid-cols-2 md:grid-cols-4",
+  5: "grid-cols-2 md:grid-cols-5",
+  6: "grid-cols-3 md:grid-cols-6",
+};
+
+export function GalleryBlock({
+  block,
+  children,
+}: BlockProps<GalleryAttributes>) {
+  const { columns = 3, imageCrop = true, className } = block.attributes;
+  const caption = getTagContent(
+    block.innerContent[block.innerContent.length - 1] ?? "",
+    "figcaption"
+  );
+
+  return (
+    <figure>
+      <div
+        className={cn(
+          "grid gap-4 [&_figure]:my-0 [&_img]:my-0 [&_img]:w-full",
+          galleryColumnClasses[columns] ?? galleryColumnClasses[3],
+          imageCrop && "[&_img]:aspect-square [&_img]:object-cover",
+          className
+        )}
+      >
+        {children}
+      </div>
+      {caption && (
+        <figcaption dangerouslySetInnerHTML={{ __html: caption }} />
+      )}
+    </figure>
+  );
+}
+
+export function QuoteBlock({ block, children }: BlockProps<QuoteAttributes>) {
+  const { textAlign, className } = block.attributes;
+  const html = getBlockHTML(block);
+  const citation = getTagContent(html, "cite");
+
+  // Older quote blocks keep their paragraphs in the block HTML
+  const content =
+    block.innerBlocks.length > 0
+      ? null
+      : (getTagContent(block.innerHTML, "blockquote") ?? "").replace(
+          /<cite[\s\S]*?<\/cite>/i,
+          ""
+        );
+
+  return (
+    <blockquote
+      className={cn(textAlign && textAlignClasses[textAlign], className)}
+    >
+      {content !== null ? (
+        <div dangerouslySetInnerHTML={{ __html: content }} />
+      ) : (
+        children
+      )}
+      {citation && (
+        <cite
+          className="block text-sm not-italic mt-2"
+          dangerouslySetInnerHTML={{ __html: citation }}
+        />
+      )}
+    </blockquote>
+  );
+}
+
+export function CodeBlock({ block }: BlockProps<CodeAttributes>) {
+  const { language, className } = block.attributes;
+  const code = getTagContent(block.innerHTML, "code") ?? "";
+
+  return (
+    <pre className={className} data-language={language}>
+      <code dangerouslySetInnerHTML={{ __html: code }} />
+    </pre>
+  );
+}
+
+// Convert a provider URL into an embeddable iframe URL
+function getEmbedUrl(url: string): string | null {
+  const youtube = url.match(
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)([\w-]{11})/
+  );
+  if (youtube) return `https://www.youtube.com/embed/${youtube[1]}`;
+
+  const vimeo = url.match(/vimeo\.com\/(\d+)/);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+
+  return null;
+}
+
+export function EmbedBlock({ block }: BlockProps<EmbedAttributes>) {
+  const { url, providerNameSlug, className } = block.attributes;
+  const caption = getTagContent(block.innerHTML, "figcaption");
+
+  if (!url) {
+    return null;
+  }
+
+  const embedUrl = getEmbedUrl(url);
+
+  return (
+    <figure className={className}>
+      {embedUrl ? (
+        <div className="relative aspect-video overflow-hidden rounded-lg border">
+          <iframe
+            src={embedUrl}
+            title={caption?.replace(/<[^>]*>/g, "") || providerNameSlug || url}
+            className="absolute inset-0 h-full w-full"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+            loading="lazy"
+          />
+        </div>
+      ) : (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          {url}
+        </a>
+      )}
+      {caption && (
+        <figcaption dangerouslySetInnerHTML={{ __html: caption }} />
+      )}
+    </figure>
+  );
+}
+
+const verticalAlignClasses = {
+  top: "items-start",
+  center: "items-center",
+  bottom: "items-end",
+};
+
+export function ColumnsBlock({
+  block,
+  children,
+}: BlockProps<ColumnsAttributes>) {
+  const {
+    isStackedOnMobile = true,
+    verticalAlignment,
+    className,
+  } = block.attributes;
+
+  return (
+    <div
+      className={cn(
+        "flex gap-6",
+        isStackedOnMobile ? "flex-col md:flex-row" : "flex-row",
+        verticalAlignment && verticalAlignClasses[verticalAlignment],
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+const selfAlignClasses = {
+  top: "self-start",
+  center: "self-center",
+  bottom: "self-end",
+};
+
+export function ColumnBlock({ block, children }: BlockProps<ColumnAttributes>) {
+  const { width, verticalAlignment, className } = block.attributes;
+
+  return (
+    <div
+      className={cn(
+        "min-w-0 flex-1 [&>*:first-child]:mt-0",
+        verticalAlignment && selfAlignClasses[verticalAlignment],
+        className
+      )}
+      style={width ? { flexBasis: width, flexGrow: 0 } : undefined}
+    >
+      {children}
+    </div>
+  );
+}
+
+const justifyClasses = {
+  left: "justify-start",
+  center: "justify-center",
+  right: "justify-end",
+  "space-between": "justify-between",
+};
+
+export function ButtonsBlock({
+  block,
+  children,
+}: BlockProps<ButtonsAttributes>) {
+  const { layout, className } = block.attributes;
+
+  return (
+    <div
+      className={cn(
+        "not-prose flex flex-wrap gap-2 my-4",
+        layout?.justifyContent && justifyClasses[layout.justifyContent],
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+export function ButtonBlock({ block }: BlockProps<ButtonAttributes>) {
+  const { linkTarget, rel, className } = block.attributes;
+  const url = block.attributes.url ?? getTagAttribute(block.innerHTML, "a", "href");
+  const text = block.attributes.text ?? getTagContent(block.innerHTML, "a") ?? "";
+  const variant = className?.includes("is-style-outline") ? "outline" : "default";
+
+  if (!url) {
+    return null;
+  }
+
+  const label = <span dangerouslySetInnerHTML={{ __html: text }} />;
+
+  return (
+    <Button asChild variant={variant} className="!no-underline">
+      {url.startsWith("/") ? (
+        <Link href={url}>{label}</Link>
+      ) : (
+        <a href={url} target={linkTarget} rel={rel}>
+          {label}
+        </a>
+      )}
+    </Button>
+  );
+}
+
+export function TableBlock({ block }: BlockProps<TableAttributes>) {
+  const { hasFixedLayout, className } = block.attributes;
+  const table = getTagContent(block.innerHTML, "table") ?? "";
+  const caption = getTagContent(block.innerHTML, "figcaption");
+
+  return (
+    <figure className={cn("overflow-x-auto", className)}>
+      <table
+        className={cn(hasFixedLayout && "table-fixed")}
+        dangerouslySetInnerHTML={{ __html: table }}
+      />
+      {caption && (
+        <figcaption dangerouslySetInnerHTML={{ __html: caption }} />
+      )}
+    </figure>
+  );
+}
+
+// Fallback for blocks without a component: render the block HTML as-is
+export function HTMLBlock({ block }: BlockProps) {
+  return <div dangerouslySetInnerHTML={{ __html: getBlockHTML(block) }} />;
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import Image, { ImageLoader } from "next/image";
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+}
+
+// An image from the WordPress media library, served from the sizes WordPress
+// already generated instead of going through the Next image optimizer
+export function ContentImage({
+  src,
+  alt,
+  width,
+  height,
+  variants,
+  sizes = "(max-width: 768px) 100vw, 768px",
+  className,
+}: {
+  src: string;
+  alt: string;
+  width: number;
+  height: number;
+  // Generated sizes, smallest first
+  variants: ImageVariant[];
+  sizes?: string;
+  className?: string;
+}) {
+  const loader: ImageLoader = ({ width: requested }) => {
+    const variant = variants.find((item) => item.width >= requested);
+    // WordPress ignores the query; it keeps each srcset candidate distinct
+    return variant ? variant.url : `${src}?w=${requested}`;
+  };
+
+  return (
+    <Image
+      loader={loader}
+      src={src}
+      alt={alt}
+      width={width}
+      height={height}
+      sizes={sizes}
+      className={className}
+    />
+  );
+}
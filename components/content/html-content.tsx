@@ -0,0 +1,218 @@
+import { createElement, CSSProperties, ReactNode } from "react";
+import Link from "next/link";
+
+import { ContentImage, ImageVariant } from "./content-image";
+import { getMediaByIds } from "@/lib/wordpress";
+import { getLinkResolver, LinkResolver } from "@/lib/content-links";
+import { HtmlElement, HtmlNode, parseHtml } from "@/lib/html";
+import { FeaturedMedia } from "@/lib/wordpress.d";
+
+interface RenderContext {
+  resolve: LinkResolver;
+  media: Map<number, FeaturedMedia>;
+}
+
+// HTML attribute names that differ in React
+const reactAttributeNames: Record<string, string> = {
+  class: "className",
+  colspan: "colSpan",
+  rowspan: "rowSpan",
+  srcset: "srcSet",
+  srclang: "srcLang",
+  hreflang: "hrefLang",
+  datetime: "dateTime",
+  allowfullscreen: "allowFullScreen",
+  frameborder: "frameBorder",
+  referrerpolicy: "referrerPolicy",
+  playsinline: "playsInline",
+  autoplay: "autoPlay",
+};
+
+// Elements where whitespace text is invalid in the DOM React renders
+const tableTags = new Set([
+  "table",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "colgroup",
+]);
+
+const voidTags = new Set(["br", "col", "hr", "img", "source", "track", "wbr"]);
+
+function parseStyle(style: string): CSSProperties {
+  return Object.fromEntries(
+    style.split(";").flatMap((declaration) => {
+      const colon = declaration.indexOf(":");
+      const property = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).trim();
+
+      if (colon === -1 || !property || !value) return [];
+
+      // Custom properties keep their name, e.g. `--wp--preset--color--black`
+      return [
+        [
+          property.startsWith("--")
+            ? property
+            : property.replace(/-([a-z])/g, (_, letter) =>
+                letter.toUpperCase()
+              ),
+          value,
+        ],
+      ];
+    })
+  );
+}
+
+function toReactProps(attributes: HtmlElement["attributes"]) {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([name, value]) => [
+      reactAttributeNames[name] ?? name,
+      name === "style" && value
+        ? parseStyle(value)
+        : value === null
+          ? true
+          : value,
+    ])
+  );
+}
+
+// Media library id from the `wp-image-123` class WordPress adds to images
+function getMediaId(element: HtmlElement): number | null {
+  const match = element.attributes.class?.match(/\bwp-image-(\d+)\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function getMediaIds(nodes: HtmlNode[]): number[] {
+  return nodes.flatMap((node) => {
+    if (node.type === "text") return [];
+    const id = node.tag === "img" ? getMediaId(node) : null;
+    return [...(id ? [id] : []), ...getMediaIds(node.children)];
+  });
+}
+
+// Sizes WordPress generated for a media item, smallest first. Pass `maxWidth`
+// to leave out sizes larger than the one an editor picked.
+export function getImageVariants(
+  media: FeaturedMedia,
+  maxWidth = Infinity
+): ImageVariant[] {
+  return Object.values(media.media_details.sizes ?? {})
+    .filter(
+      (size) => size.source_url !== media.source_url && size.width <= maxWidth
+    )
+    .map((size) => ({ url: size.source_url, width: size.width }))
+    .sort((a, b) => a.width - b.width);
+}
+
+function getPathname(url: string) {
+  try {
+    return new URL(url, "http://localhost").pathname;
+  } catch {
+    return null;
+  }
+}
+
+// The generated size the markup points at, found by its file or else by the
+// `width` and `height` attributes. Falls back to the full size.
+function getImageSize(element: HtmlElement, media: FeaturedMedia) {
+  const { src, width, height } = element.attributes;
+  const details = media.media_details;
+  const sizes = Object.values(details.sizes ?? {});
+  const path = src ? getPathname(src) : null;
+
+  return (
+    sizes.find((size) => path && getPathname(size.source_url) === path) ??
+    sizes.find(
+      (size) =>
+        String(size.width) === width &&
+        (!height || String(size.height) === height)
+    ) ?? {
+      width: details.width,
+      height: details.height,
+      source_url: media.source_url,
+    }
+  );
+}
+
+function renderImage(element: HtmlElement, key: number, media?: FeaturedMedia) {
+  const { src, alt, sizes, class: className } = element.attributes;
+  const size = media && getImageSize(element, media);
+
+  // Images outside the media library are left as they are
+  if (!media || !size?.width || !size.height || !src) {
+    return createElement("img", { key, ...toReactProps(element.attributes) });
+  }
+
+  return (
+    <ContentImage
+      key={key}
+      src={size.source_url}
+      alt={alt ?? media.alt_text ?? ""}
+      width={size.width}
+      height={size.height}
+      variants={getImageVariants(media, size.width)}
+      sizes={sizes ?? undefined}
+      className={className ?? undefined}
+    />
+  );
+}
+
+function renderNodes(
+  nodes: HtmlNode[],
+  context: RenderContext,
+  parent?: string
+): ReactNode[] {
+  return nodes.map((node, key) => {
+    if (node.type === "text") {
+      return parent && tableTags.has(parent) && !node.text.trim()
+        ? null
+        : node.text;
+    }
+
+    if (node.tag === "img") {
+      const id = getMediaId(node);
+      return renderImage(node, key, id ? context.media.get(id) : undefined);
+    }
+
+    const attributes = toReactProps(node.attributes);
+    const children = voidTags.has(node.tag)
+      ? undefined
+      : renderNodes(node.children, context, node.tag);
+
+    if (node.tag === "a" && node.attributes.href) {
+      const path = context.resolve(node.attributes.href);
+      if (path !== null) {
+        return (
+          <Link key={key} {...attributes} href={path}>
+            {children}
+          </Link>
+        );
+      }
+    }
+
+    return createElement(node.tag, { key, ...attributes }, children);
+  });
+}
+
+// Renders sanitized WordPress content with links to the WordPress site
+// pointing at Next routes and media library images through `next/image`
+export async function HtmlContent({ html }: { html: string }) {
+  const nodes = parseHtml(html);
+  const [resolve, media] = await Promise.all([
+    getLinkResolver(),
+    getMediaByIds(getMediaIds(nodes)).catch((error) => {
+      console.error("Failed to fetch content images:", error);
+      return [];
+    }),
+  ]);
+
+  return (
+    <>
+      {renderNodes(nodes, {
+        resolve,
+        media: new Map(media.map((item) => [item.id, item])),
+      })}
+    </>
+  );
+}
@@ -0,0 +1,11 @@
+import { JsonLdSchema, serializeJsonLd } from "@/lib/structured-data";
+
+// Structured data for search engines. Pass several schemas to share a graph.
+export function JsonLd({ data }: { data: JsonLdSchema | JsonLdSchema[] }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+import Link from "next/link";
+
+import { getLocaleLabel, Locale } from "@/lib/i18n";
+import { TranslationPaths } from "@/lib/translations";
+
+// Links to the other languages a post, page or entry is available in
+export function TranslationLinks({
+  paths,
+  locale,
+}: {
+  paths: TranslationPaths;
+  locale: Locale;
+}) {
+  const others = (Object.entries(paths) as [Locale, string][]).filter(
+    ([code]) => code !== locale
+  );
+
+  if (others.length === 0) {
+    return null;
+  }
+
+  return (
+    <p className="not-prose text-sm text-muted-foreground">
+      Also available in{" "}
+      {others.map(([code, path], index) => (
+        <span key={code}>
+          {index > 0 && ", "}
+          <Link
+            href={path}
+            hrefLang={code}
+            lang={code}
+            className="underline underline-offset-4 hover:text-foreground"
+          >
+            {getLocaleLabel(code)}
+          </Link>
+        </span>
+      ))}
+    </p>
+  );
+}
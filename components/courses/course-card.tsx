@@ -16,8 +16,11 @@ import { TutorCourseWithPricing } from '@/lib/tutor-course-utils';
 import { useCartContext } from '@/contexts/cart-context';
 import { FreeEnrollButton } from './free-enroll-button';
 
+// Client component, so the excerpt arrives sanitized from the server
+export type ListedCourse = TutorCourseWithPricing & { excerptHtml: string };
+
 interface CourseCardProps {
-  course: TutorCourseWithPricing;
+  course: ListedCourse;
 }
 
 export default function CourseCard({ course }: CourseCardProps) {
@@ -92,10 +95,10 @@ export default function CourseCard({ course }: CourseCardProps) {
           </div>
         </div>
         
-        {course.excerpt?.rendered && (
+        {course.excerptHtml && (
           <CardDescription 
             className="line-clamp-3"
-            dangerouslySetInnerHTML={{ __html: course.excerpt.rendered }}
+            dangerouslySetInnerHTML={{ __html: course.excerptHtml }}
           />
         )}
       </CardHeader>
@@ -1,12 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-import CourseCard from './course-card';
+import CourseCard, { ListedCourse } from './course-card';
 import { Button } from '@/components/ui/button';
-import { TutorCourseWithPricing } from '@/lib/tutor-course-utils';
 
 interface CoursesListProps {
-  courses: TutorCourseWithPricing[];
+  courses: ListedCourse[];
 }
 
 export default function CoursesList({ courses }: CoursesListProps) {
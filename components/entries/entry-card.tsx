@@ -0,0 +1,78 @@
+import Image from "next/image";
+import Link from "next/link";
+
+import { Entry } from "@/lib/wordpress.d";
+import { cn } from "@/lib/utils";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { sanitizeInlineHtml } from "@/lib/sanitize";
+
+export async function EntryCard({
+  entry,
+  basePath,
+}: {
+  entry: Entry;
+  basePath: string;
+}) {
+  const locale = await getLocale();
+  const media = entry._embedded?.["wp:featuredmedia"]?.[0];
+  const date = new Date(entry.date).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <Link
+      href={localizePath(`${basePath}/${entry.slug}`, locale)}
+      className={cn(
+        "border p-4 bg-accent/30 rounded-lg group flex justify-between flex-col not-prose gap-8",
+        "hover:bg-accent/75 transition-all"
+      )}
+    >
+      <div className="flex flex-col gap-4">
+        <div className="h-48 w-full overflow-hidden relative rounded-md border flex items-center justify-center bg-muted">
+          {media?.source_url ? (
+            <Image
+              className="h-full w-full object-cover"
+              src={media.source_url}
+              alt={media.alt_text || entry.title?.rendered || "Thumbnail"}
+              width={400}
+              height={200}
+            />
+          ) : (
+            <div className="flex items-center justify-center w-full h-full text-muted-foreground">
+              No image available
+            </div>
+          )}
+        </div>
+        <div
+          dangerouslySetInnerHTML={{
+            __html: sanitizeInlineHtml(entry.title?.rendered) || "Untitled",
+          }}
+          className="text-xl text-primary font-medium group-hover:underline decoration-muted-foreground underline-offset-4 decoration-dotted transition-all"
+        ></div>
+        {entry.excerpt?.rendered && (
+          <div
+            className="text-sm"
+            dangerouslySetInnerHTML={{
+              __html:
+                sanitizeInlineHtml(
+                  entry.excerpt.rendered
+                    .split(" ")
+                    .slice(0, 12)
+                    .join(" ")
+                    .trim()
+                ) + "...",
+            }}
+          ></div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <hr />
+        <p className="text-xs text-right">{date}</p>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+
+import { Section, Container } from "@/components/craft";
+import { Button } from "@/components/ui/button";
+
+// Shared body of the per-segment `error.tsx` boundaries
+export function RouteError({
+  error,
+  reset,
+  title = "Something went wrong",
+  backHref = "/",
+  backLabel = "Return Home",
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+  title?: string;
+  backHref?: string;
+  backLabel?: string;
+}) {
+  const router = useRouter();
+  const [isRetrying, startTransition] = useTransition();
+
+  useEffect(() => {
+    console.error(error);
+  }, [error]);
+
+  // `reset` alone re-renders with the cached server payload;
+  // refreshing first fetches the segment again
+  const retry = () => {
+    startTransition(() => {
+      router.refresh();
+      reset();
+    });
+  };
+
+  return (
+    <Section>
+      <Container>
+        <div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+          <h1 className="text-4xl font-bold mb-4">{title}</h1>
+          <p className="mb-8 text-muted-foreground">
+            We couldn&apos;t load this content. This is usually temporary.
+          </p>
+          <div className="flex gap-2 not-prose">
+            <Button onClick={retry} disabled={isRetrying}>
+              {isRetrying ? "Retrying..." : "Try Again"}
+            </Button>
+            <Button asChild variant="outline">
+              <Link href={backHref}>{backLabel}</Link>
+            </Button>
+          </div>
+          {error.digest && (
+            <p className="mt-8 text-xs text-muted-foreground">
+              Error ID: {error.digest}
+            </p>
+          )}
+        </div>
+      </Container>
+    </Section>
+  );
+}
@@ -0,0 +1,31 @@
+import Link from "next/link";
+
+import { Section, Container } from "@/components/craft";
+import { Button } from "@/components/ui/button";
+
+// Shared body of the per-segment `not-found.tsx` pages
+export function RouteNotFound({
+  title,
+  description,
+  backHref = "/",
+  backLabel = "Return Home",
+}: {
+  title: string;
+  description: string;
+  backHref?: string;
+  backLabel?: string;
+}) {
+  return (
+    <Section>
+      <Container>
+        <div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+          <h1 className="text-4xl font-bold mb-4">{title}</h1>
+          <p className="mb-8">{description}</p>
+          <Button asChild className="not-prose mt-6">
+            <Link href={backHref}>{backLabel}</Link>
+          </Button>
+        </div>
+      </Container>
+    </Section>
+  );
+}
@@ -1,8 +1,11 @@
 import { Button } from "@/components/ui/button";
 import { MobileNav } from "@/components/nav/mobile-nav";
+import { MainNav } from "@/components/nav/main-nav";
 import { ThemeToggle } from "@/components/theme/theme-toggle";
 import { CartBadge } from "@/components/cart/cart-badge";
-import { mainMenu, contentMenu } from "@/menu.config";
+import { QuickSearch } from "@/components/search/quick-search";
+import { LocaleSwitcher } from "@/components/nav/locale-switcher";
+import { mainMenu, contentMenu, menuLocations } from "@/menu.config";
 import { Section, Container } from "@/components/craft";
 import { CartProvider } from "@/contexts/cart-context";
 
@@ -12,25 +15,36 @@ import Image from "next/image";
 import Link from "next/link";
 
 import { cn } from "@/lib/utils";
+import { getNavigation } from "@/lib/navigation";
+import { Locale, localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { NavItem } from "@/lib/wordpress.d";
 import { Metadata } from "next";
 
 interface LayoutWrapperProps extends Metadata {
   children: React.ReactNode;
   isProxyAccess: boolean;
 }
-export function LayoutWrapper({ children, isProxyAccess, title, description }: LayoutWrapperProps) {
+export async function LayoutWrapper({ children, isProxyAccess, title, description }: LayoutWrapperProps) {
   const shouldHideLayout = isProxyAccess;
+  const locale = await getLocale();
+  const [mainItems, contentItems] = shouldHideLayout
+    ? [[], []]
+    : await Promise.all([
+        getNavigation(menuLocations.main, mainMenu),
+        getNavigation(menuLocations.content, contentMenu),
+      ]);
 
   return (
     <CartProvider>
-      {!shouldHideLayout && <Nav title={title} />}
+      {!shouldHideLayout && <Nav title={title} locale={locale} mainItems={mainItems} contentItems={contentItems} />}
       {children}
-      {!shouldHideLayout && <Footer title={title} description={description} />}
+      {!shouldHideLayout && <Footer title={title} locale={locale} description={description} mainItems={mainItems} contentItems={contentItems} />}
     </CartProvider>
   );
 }
 
-const Nav = ({ className, children, id, title, description }: { className?: string; children?: React.ReactNode; id?: string, title: Metadata['title'], description?: Metadata['description'] }) => {
+const Nav = ({ className, children, id, title, locale, mainItems, contentItems }: { className?: string; children?: React.ReactNode; id?: string, title: Metadata['title'], locale: Locale, mainItems: NavItem[], contentItems: NavItem[] }) => {
   return (
     <nav
       className={cn("sticky z-50 top-0 bg-background", "border-b", className)}
@@ -42,7 +56,7 @@ const Nav = ({ className, children, id, title, description }: { className?: stri
       >
         <Link
           className="hover:opacity-75 transition-all flex gap-4 items-center"
-          href="/"
+          href={localizePath("/", locale)}
         >
           <Image
             src={Logo}
@@ -55,33 +69,27 @@ const Nav = ({ className, children, id, title, description }: { className?: stri
         </Link>
         {children}
         <div className="flex items-center gap-2">
-          <div className="mx-2 hidden md:flex">
-            {Object.entries(mainMenu).map(([key, href]) => (
-              <Button key={href} asChild variant="ghost" size="sm">
-                <Link href={href}>
-                  {key.charAt(0).toUpperCase() + key.slice(1)}
-                </Link>
-              </Button>
-            ))}
-          </div>
+          <MainNav items={mainItems} className="mx-2 hidden md:flex" />
+          <QuickSearch locale={locale} />
+          <LocaleSwitcher locale={locale} />
           <CartBadge className="hidden md:flex" />
           <Button asChild className="hidden sm:flex">
             <Link href="https://github.com/9d8dev/next-wp">Get Started</Link>
           </Button>
-          <MobileNav />
+          <MobileNav mainItems={mainItems} contentItems={contentItems} />
         </div>
       </div>
     </nav>
   );
 };
 
-const Footer = ({description, title }: {description: Metadata['description'], title: Metadata['title']}) => {
+const Footer = ({description, title, locale, mainItems, contentItems }: {description: Metadata['description'], title: Metadata['title'], locale: Locale, mainItems: NavItem[], contentItems: NavItem[]}) => {
   return (
     <footer>
       <Section>
         <Container className="grid md:grid-cols-[1.5fr_0.5fr_0.5fr] gap-12">
           <div className="flex flex-col gap-6 not-prose">
-            <Link href="/">
+            <Link href={localizePath("/", locale)}>
               <h3 className="sr-only">{title ?? ''}</h3>
               <Image
                 src={Logo}
@@ -99,25 +107,25 @@ const Footer = ({description, title }: {description: Metadata['description'], ti
           </div>
           <div className="flex flex-col gap-2 text-sm">
             <h5 className="font-medium text-base">Website</h5>
-            {Object.entries(mainMenu).map(([key, href]) => (
+            {mainItems.map((item) => (
               <Link
                 className="hover:underline underline-offset-4"
-                key={href}
-                href={href}
+                key={item.id}
+                href={item.href}
               >
-                {key.charAt(0).toUpperCase() + key.slice(1)}
+                {item.title}
               </Link>
             ))}
           </div>
           <div className="flex flex-col gap-2 text-sm">
             <h5 className="font-medium text-base">Blog</h5>
-            {Object.entries(contentMenu).map(([key, href]) => (
+            {contentItems.map((item) => (
               <Link
                 className="hover:underline underline-offset-4"
-                key={href}
-                href={href}
+                key={item.id}
+                href={item.href}
               >
-                {key.charAt(0).toUpperCase() + key.slice(1)}
+                {item.title}
               </Link>
             ))}
           </div>
@@ -0,0 +1,58 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { Check, Languages } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getLocaleLabel, locales, localizePath, Locale } from "@/lib/i18n";
+
+// Switches the language of the current page. Posts, pages and entries list
+// their translations as `hreflang` alternates, which can have another slug;
+// other pages keep their path under the new prefix.
+export function LocaleSwitcher({ locale }: { locale: Locale }) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const handleSelect = (target: Locale) => {
+    const alternate = document.querySelector<HTMLLinkElement>(
+      `link[rel="alternate"][hreflang="${target}"]`
+    );
+    const url = alternate ? new URL(alternate.href) : null;
+
+    router.push(
+      url ? `${url.pathname}${url.search}` : localizePath(pathname, target)
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Change language">
+          <Languages className="h-[1.2rem] w-[1.2rem]" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {locales.map((code) => (
+          <DropdownMenuItem
+            key={code}
+            lang={code}
+            onSelect={() => handleSelect(code)}
+          >
+            <Check
+              className={
+                code === locale ? "mr-2 h-4 w-4" : "mr-2 h-4 w-4 invisible"
+              }
+            />
+            {getLocaleLabel(code)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import Link from "next/link";
+
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger,
+  navigationMenuTriggerStyle,
+} from "@/components/ui/navigation-menu";
+import { NavItem } from "@/lib/wordpress.d";
+import { cn } from "@/lib/utils";
+
+// Desktop navigation. Items with children open as a dropdown.
+export function MainNav({
+  items,
+  className,
+}: {
+  items: NavItem[];
+  className?: string;
+}) {
+  return (
+    <NavigationMenu className={className}>
+      <NavigationMenuList>
+        {items.map((item) =>
+          item.children.length > 0 ? (
+            <NavigationMenuItem key={item.id}>
+              <NavigationMenuTrigger className="h-9 px-3">
+                {item.title}
+              </NavigationMenuTrigger>
+              <NavigationMenuContent>
+                <ul className="grid w-[220px] gap-1 p-2">
+                  <li>
+                    <NavLink item={item} className="font-medium" />
+                  </li>
+                  {item.children.map((child) => (
+                    <li key={child.id}>
+                      <NavLink item={child} />
+                      {child.children.map((grandchild) => (
+                        <NavLink
+                          key={grandchild.id}
+                          item={grandchild}
+                          className="pl-6 text-muted-foreground"
+                        />
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </NavigationMenuContent>
+            </NavigationMenuItem>
+          ) : (
+            <NavigationMenuItem key={item.id}>
+              <NavigationMenuLink asChild>
+                <Link
+                  href={item.href}
+                  target={item.external ? "_blank" : undefined}
+                  className={cn(navigationMenuTriggerStyle(), "h-9 px-3")}
+                >
+                  {item.title}
+                </Link>
+              </NavigationMenuLink>
+            </NavigationMenuItem>
+          )
+        )}
+      </NavigationMenuList>
+    </NavigationMenu>
+  );
+}
+
+function NavLink({ item, className }: { item: NavItem; className?: string }) {
+  return (
+    <NavigationMenuLink asChild>
+      <Link
+        href={item.href}
+        target={item.external ? "_blank" : undefined}
+        className={cn(
+          "block select-none rounded-md px-3 py-2 text-sm leading-none no-underline outline-none transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground",
+          className
+        )}
+      >
+        {item.title}
+      </Link>
+    </NavigationMenuLink>
+  );
+}
@@ -21,11 +21,16 @@ import {
 } from "@/components/ui/sheet";
 import { Separator } from "@/components/ui/separator";
 
-import { mainMenu, contentMenu } from "@/menu.config";
 import { siteConfig } from "@/site.config";
+import { NavItem } from "@/lib/wordpress.d";
 import { CartBadge } from "@/components/cart/cart-badge";
 
-export function MobileNav() {
+interface MobileNavProps {
+  mainItems: NavItem[];
+  contentItems: NavItem[];
+}
+
+export function MobileNav({ mainItems, contentItems }: MobileNavProps) {
   const [open, setOpen] = React.useState(false);
 
   return (
@@ -56,21 +61,13 @@ export function MobileNav() {
           <div className="flex flex-col space-y-3">
             <h3 className="text-small mt-6">Menu</h3>
             <Separator />
-            {Object.entries(mainMenu).map(([key, href]) => (
-              <MobileLink key={key} href={href} onOpenChange={setOpen}>
-                {key.charAt(0).toUpperCase() + key.slice(1)}
-              </MobileLink>
-            ))}
+            <MobileNavItems items={mainItems} onOpenChange={setOpen} />
             <div className="w-full">
               <CartBadge showText onOpenChange={setOpen} className="w-full justify-start p-0 h-auto text-lg" />
             </div>
             <h3 className="text-small pt-6">Blog Menu</h3>
             <Separator />
-            {Object.entries(contentMenu).map(([key, href]) => (
-              <MobileLink key={key} href={href} onOpenChange={setOpen}>
-                {key.charAt(0).toUpperCase() + key.slice(1)}
-              </MobileLink>
-            ))}
+            <MobileNavItems items={contentItems} onOpenChange={setOpen} />
           </div>
         </ScrollArea>
       </SheetContent>
@@ -78,10 +75,46 @@ export function MobileNav() {
   );
 }
 
+// Nested menu items are indented under their parent
+function MobileNavItems({
+  items,
+  onOpenChange,
+  depth = 0,
+}: {
+  items: NavItem[];
+  onOpenChange?: (open: boolean) => void;
+  depth?: number;
+}) {
+  return (
+    <>
+      {items.map((item) => (
+        <React.Fragment key={item.id}>
+          <MobileLink
+            href={item.href}
+            onOpenChange={onOpenChange}
+            className={cn(depth > 0 && "text-base text-muted-foreground")}
+            style={{ paddingLeft: `${depth}rem` }}
+          >
+            {item.title}
+          </MobileLink>
+          {item.children.length > 0 && (
+            <MobileNavItems
+              items={item.children}
+              onOpenChange={onOpenChange}
+              depth={depth + 1}
+            />
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
 interface MobileLinkProps extends LinkProps {
   onOpenChange?: (open: boolean) => void;
   children: React.ReactNode;
   className?: string;
+  style?: React.CSSProperties;
 }
 
 function MobileLink({
@@ -0,0 +1,49 @@
+import Link from "next/link";
+import { ChevronRight } from "lucide-react";
+
+import { JsonLd } from "@/components/content/json-ld";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { sanitizeInlineHtml } from "@/lib/sanitize";
+import { getBreadcrumbListSchema, getSchemaSite } from "@/lib/structured-data";
+
+export interface Breadcrumb {
+  title: string;
+  href?: string;
+}
+
+// Also describes the trail as a `BreadcrumbList` for search engines
+export async function PageBreadcrumbs({ items }: { items: Breadcrumb[] }) {
+  const locale = await getLocale();
+  const baseUrl = `${getSchemaSite().url}${localizePath("/", locale)}`;
+
+  return (
+    <nav aria-label="Breadcrumb" className="mb-6 text-sm text-muted-foreground">
+      <JsonLd data={getBreadcrumbListSchema(items, baseUrl)} />
+      <ol className="flex flex-wrap items-center gap-1">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="h-3 w-3" />}
+            {item.href ? (
+              <Link
+                href={localizePath(item.href, locale)}
+                className="hover:text-foreground transition-colors"
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeInlineHtml(item.title),
+                }}
+              />
+            ) : (
+              <span
+                aria-current="page"
+                className="text-foreground"
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeInlineHtml(item.title),
+                }}
+              />
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,74 @@
+import Link from "next/link";
+
+import { PageNode } from "@/lib/wordpress.d";
+import { cn } from "@/lib/utils";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { sanitizeInlineHtml } from "@/lib/sanitize";
+
+// Sibling pages of the current page, with the current page's children nested
+export async function PageSidebar({
+  parent,
+  siblings,
+  current,
+}: {
+  parent?: PageNode;
+  siblings: PageNode[];
+  current: PageNode;
+}) {
+  if (siblings.length <= 1 && current.children.length === 0) {
+    return null;
+  }
+
+  const locale = await getLocale();
+
+  return (
+    <aside className="not-prose text-sm">
+      <nav aria-label="Section" className="space-y-3 md:sticky md:top-24">
+        {parent && (
+          <Link
+            href={localizePath(parent.href, locale)}
+            className="block font-medium text-muted-foreground hover:text-foreground"
+            dangerouslySetInnerHTML={{
+              __html: sanitizeInlineHtml(parent.title.rendered),
+            }}
+          />
+        )}
+        <ul className="space-y-2 border-l">
+          {siblings.map((page) => (
+            <li key={page.id}>
+              <Link
+                href={localizePath(page.href, locale)}
+                aria-current={page.id === current.id ? "page" : undefined}
+                className={cn(
+                  "-ml-px block border-l pl-4 hover:text-foreground",
+                  page.id === current.id
+                    ? "border-primary font-medium text-foreground"
+                    : "border-transparent text-muted-foreground"
+                )}
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeInlineHtml(page.title.rendered),
+                }}
+              />
+              {page.id === current.id && current.children.length > 0 && (
+                <ul className="mt-2 space-y-2 pl-8">
+                  {current.children.map((child) => (
+                    <li key={child.id}>
+                      <Link
+                        href={localizePath(child.href, locale)}
+                        className="text-muted-foreground hover:text-foreground"
+                        dangerouslySetInnerHTML={{
+                          __html: sanitizeInlineHtml(child.title.rendered),
+                        }}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </aside>
+  );
+}
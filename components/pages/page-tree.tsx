@@ -0,0 +1,43 @@
+import Link from "next/link";
+
+import { PageNode } from "@/lib/wordpress.d";
+import { cn } from "@/lib/utils";
+import { sanitizeInlineHtml } from "@/lib/sanitize";
+
+// Nested list of pages, as built by `buildPageTree`
+export function PageTree({
+  nodes,
+  currentId,
+  className,
+}: {
+  nodes: PageNode[];
+  currentId?: number;
+  className?: string;
+}) {
+  return (
+    <ul className={cn("space-y-1", className)}>
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <Link
+            href={node.href}
+            aria-current={node.id === currentId ? "page" : undefined}
+            className={cn(
+              "hover:underline underline-offset-4",
+              node.id === currentId && "font-medium"
+            )}
+            dangerouslySetInnerHTML={{
+              __html: sanitizeInlineHtml(node.title.rendered),
+            }}
+          />
+          {node.children.length > 0 && (
+            <PageTree
+              nodes={node.children}
+              currentId={currentId}
+              className="mt-1 ml-4 border-l pl-4"
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,76 @@
+import Link from "next/link";
+
+import {
+  ArchiveMonth,
+  ArchivePeriod,
+  formatPeriod,
+  getPeriodPath,
+} from "@/lib/post-archives";
+import { cn } from "@/lib/utils";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+
+// Post counts per month, grouped by year. The year of `current` is expanded.
+export async function ArchiveWidget({
+  months,
+  current,
+}: {
+  months: ArchiveMonth[];
+  current?: ArchivePeriod;
+}) {
+  const years = Array.from(new Set(months.map((item) => item.year)));
+
+  if (years.length === 0) {
+    return null;
+  }
+
+  const locale = await getLocale();
+
+  return (
+    <nav aria-label="Archives" className="not-prose space-y-2 text-sm">
+      <h3 className="font-medium">Archives</h3>
+      {years.map((year) => {
+        const yearMonths = months.filter((item) => item.year === year);
+        const total = yearMonths.reduce((sum, item) => sum + item.count, 0);
+
+        return (
+          <details
+            key={year}
+            open={current ? current.year === year : year === years[0]}
+          >
+            <summary className="cursor-pointer">
+              <Link
+                href={localizePath(getPeriodPath({ year }), locale)}
+                className={cn(
+                  "hover:underline underline-offset-4",
+                  current?.year === year && !current.month && "font-medium"
+                )}
+              >
+                {year}
+              </Link>{" "}
+              <span className="text-muted-foreground">({total})</span>
+            </summary>
+            <ul className="mt-1 ml-4 space-y-1">
+              {yearMonths.map((item) => (
+                <li key={item.month}>
+                  <Link
+                    href={localizePath(getPeriodPath(item), locale)}
+                    aria-current={
+                      current?.year === year && current.month === item.month
+                        ? "page"
+                        : undefined
+                    }
+                    className="hover:underline underline-offset-4 aria-[current=page]:font-medium"
+                  >
+                    {formatPeriod(item)}
+                  </Link>{" "}
+                  <span className="text-muted-foreground">({item.count})</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        );
+      })}
+    </nav>
+  );
+}
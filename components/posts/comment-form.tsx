@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { submitComment } from "@/app/posts/[slug]/actions";
+
+interface CommentFormProps {
+  postId: number;
+  parent?: number;
+  onCancel?: () => void;
+}
+
+export function CommentForm({ postId, parent, onCancel }: CommentFormProps) {
+  const router = useRouter();
+  const [values, setValues] = useState({
+    name: "",
+    email: "",
+    url: "",
+    content: "",
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleChange = (field: keyof typeof values) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await submitComment({ postId, parent, ...values });
+
+      if (result.success) {
+        setValues((prev) => ({ ...prev, content: "" }));
+        setMessage(
+          result.pending
+            ? "Thanks! Your comment is awaiting moderation."
+            : "Thanks for your comment!"
+        );
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      console.error("Failed to submit comment:", error);
+      setError("Your comment could not be posted. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const idPrefix = `comment-${parent ?? "new"}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 not-prose">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={values.name}
+            onChange={handleChange("name")}
+            required
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-email`}>Email (not published)</Label>
+          <Input
+            id={`${idPrefix}-email`}
+            type="email"
+            value={values.email}
+            onChange={handleChange("email")}
+            required
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-url`}>Website</Label>
+          <Input
+            id={`${idPrefix}-url`}
+            type="url"
+            value={values.url}
+            onChange={handleChange("url")}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-content`}>Comment</Label>
+        <Textarea
+          id={`${idPrefix}-content`}
+          value={values.content}
+          onChange={handleChange("content")}
+          rows={5}
+          required
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Submitting...
+            </>
+          ) : parent ? (
+            "Post Reply"
+          ) : (
+            "Post Comment"
+          )}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export function CommentReply({
+  postId,
+  parent,
+}: {
+  postId: number;
+  parent: number;
+}) {
+  const [open, setOpen] = useState(false);
+
+  if (!open) {
+    return (
+      <Button
+        variant="link"
+        size="sm"
+        className="px-0 h-auto"
+        onClick={() => setOpen(true)}
+      >
+        Reply
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <CommentForm
+        postId={postId}
+        parent={parent}
+        onCancel={() => setOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Badge } from "@/components/ui/badge";
+import { CommentThread, Post } from "@/lib/wordpress.d";
+import { cn } from "@/lib/utils";
+import { sanitizeHtml } from "@/lib/sanitize";
+
+import { CommentForm, CommentReply } from "./comment-form";
+
+// Replies nested deeper than this are shown at the same level
+const MAX_DEPTH = 4;
+
+function countComments(comments: CommentThread[]): number {
+  return comments.reduce(
+    (count, comment) => count + 1 + countComments(comment.replies),
+    0
+  );
+}
+
+export function Comments({
+  post,
+  comments,
+}: {
+  post: Post;
+  comments: CommentThread[];
+}) {
+  const isOpen = post.comment_status === "open";
+  const total = countComments(comments);
+
+  return (
+    <section id="comments" className="max-w-prose mt-12 space-y-8">
+      <h3 className="text-2xl font-medium tracking-tight">
+        {total} {total === 1 ? "Comment" : "Comments"}
+      </h3>
+
+      {comments.length > 0 && (
+        <ol className="space-y-6">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              postId={post.id}
+              canReply={isOpen}
+              depth={1}
+            />
+          ))}
+        </ol>
+      )}
+
+      {isOpen ? (
+        <div className="space-y-4">
+          <h4 className="text-xl font-medium tracking-tight">Leave a comment</h4>
+          <CommentForm postId={post.id} />
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Comments are closed.</p>
+      )}
+    </section>
+  );
+}
+
+function CommentItem({
+  comment,
+  postId,
+  canReply,
+  depth,
+}: {
+  comment: CommentThread;
+  postId: number;
+  canReply: boolean;
+  depth: number;
+}) {
+  const avatar = comment.author_avatar_urls?.["48"];
+  const date = new Date(comment.date).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <li id={`comment-${comment.id}`} className="space-y-4">
+      <div
+        className={cn(
+          "border rounded-lg p-4 bg-accent/30",
+          comment.status === "hold" && "border-dashed"
+        )}
+      >
+        <div className="flex items-center gap-3 text-sm">
+          {avatar && (
+            // eslint-disable-next-line
+            <img
+              src={avatar}
+              alt={comment.author_name}
+              width={32}
+              height={32}
+              className="rounded-full"
+            />
+          )}
+          <span className="font-medium">
+            {comment.author_url ? (
+              <a href={comment.author_url} rel="nofollow ugc noopener">
+                {comment.author_name}
+              </a>
+            ) : (
+              comment.author_name
+            )}
+          </span>
+          <span className="text-muted-foreground">{date}</span>
+          {comment.status === "hold" && (
+            <Badge variant="outline">Awaiting moderation</Badge>
+          )}
+        </div>
+        <div
+          className="mt-3 text-sm [&_p]:mb-2 last:[&_p]:mb-0"
+          dangerouslySetInnerHTML={{
+            __html: sanitizeHtml(comment.content.rendered),
+          }}
+        />
+        {canReply && comment.status === "approved" && (
+          <CommentReply postId={postId} parent={comment.id} />
+        )}
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ol
+          className={cn(
+            "space-y-4",
+            depth < MAX_DEPTH && "ml-6 pl-4 border-l"
+          )}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              postId={postId}
+              canReply={canReply}
+              depth={depth + 1}
+            />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
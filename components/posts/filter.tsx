@@ -9,6 +9,7 @@ import {
   SelectValue,
 } from "@/components/ui/select"; // Ensure this is the correct import path
 import { Button } from "@/components/ui/button"; // Add this import for the Button component
+import { ArchiveMonth, formatPeriod, getPeriodKey } from "@/lib/post-archives";
 
 interface Author {
   id: number;
@@ -29,19 +30,27 @@ interface FilterPostsProps {
   authors: Author[];
   tags: Tag[];
   categories: Category[];
+  // Months with posts, for the date filter
+  months?: ArchiveMonth[];
   selectedAuthor?: string;
   selectedTag?: string;
   selectedCategory?: string;
+  // `2024` or `2024-05`
+  selectedPeriod?: string;
 }
 
 export function FilterPosts({
   authors,
   tags,
   categories,
+  months = [],
   selectedAuthor,
   selectedTag,
   selectedCategory,
+  selectedPeriod,
 }: FilterPostsProps) {
+  const years = Array.from(new Set(months.map((item) => item.year)));
+
   const router = useRouter();
 
   const handleFilterChange = (type: string, value: string) => {
@@ -60,7 +69,7 @@ export function FilterPosts({
   };
 
   return (
-    <div className="grid md:grid-cols-[1fr_1fr_1fr_0.5fr] gap-2 my-4 !z-10">
+    <div className="grid md:grid-cols-[1fr_1fr_1fr_1fr_0.5fr] gap-2 my-4 !z-10">
       <Select
         value={selectedTag || "all"}
         onValueChange={(value) => handleFilterChange("tag", value)}
@@ -112,6 +121,34 @@ export function FilterPosts({
         </SelectContent>
       </Select>
 
+      <Select
+        value={selectedPeriod || "all"}
+        onValueChange={(value) => handleFilterChange("period", value)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="All Dates" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Dates</SelectItem>
+          {years.flatMap((year) => [
+            <SelectItem key={year} value={getPeriodKey({ year })}>
+              {year}
+            </SelectItem>,
+            ...months
+              .filter((item) => item.year === year)
+              .map((item) => (
+                <SelectItem
+                  key={getPeriodKey(item)}
+                  value={getPeriodKey(item)}
+                  className="pl-12"
+                >
+                  {formatPeriod(item)} ({item.count})
+                </SelectItem>
+              )),
+          ])}
+        </SelectContent>
+      </Select>
+
       <Button variant="outline" onClick={handleResetFilters}>
         Reset Filters
       </Button>
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Lock } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { unlockPost } from "@/app/posts/[slug]/actions";
+
+export function PasswordForm({ postId }: { postId: number }) {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    const result = await unlockPost({ postId, password });
+
+    if (result.success) {
+      // The page renders the content once the cookie is sent
+      router.refresh();
+    } else {
+      setError(result.error);
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="not-prose max-w-md space-y-4 border rounded-lg p-6 bg-accent/30"
+    >
+      <div className="flex items-center gap-2 font-medium">
+        <Lock className="h-4 w-4" />
+        This post is password protected
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Enter the password to read it.
+      </p>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`post-password-${postId}`}>Password</Label>
+        <Input
+          id={`post-password-${postId}`}
+          type="password"
+          autoComplete="off"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={isLoading}
+        />
+      </div>
+
+      <Button type="submit" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Unlocking...
+          </>
+        ) : (
+          "Unlock"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,77 @@
+import { Section, Container, Prose } from "@/components/craft";
+import { PostCard } from "@/components/posts/post-card";
+import { PostsPagination } from "@/components/posts/posts-pagination";
+import { PostWithRelations } from "@/lib/wordpress.d";
+import { sanitizeHtml, sanitizeInlineHtml } from "@/lib/sanitize";
+
+// Shared layout of the category, tag and author archives
+export function PostArchive({
+  label,
+  title,
+  description,
+  header,
+  posts,
+  total,
+  currentPage,
+  totalPages,
+  basePath,
+}: {
+  // Archive kind shown above the title, e.g. "Category"
+  label: string;
+  title: string;
+  // Rendered HTML, WordPress descriptions may contain links
+  description?: string;
+  // Extra header content, e.g. subcategories
+  header?: React.ReactNode;
+  posts: PostWithRelations[];
+  total: number;
+  currentPage: number;
+  totalPages: number;
+  basePath: string;
+}) {
+  return (
+    <Section>
+      <Container>
+        <div className="space-y-8">
+          <Prose>
+            <p className="text-sm uppercase tracking-wide text-muted-foreground !mb-2">
+              {label}
+            </p>
+            <h2
+              className="!mt-0"
+              dangerouslySetInnerHTML={{ __html: sanitizeInlineHtml(title) }}
+            />
+            {description && (
+              <div
+                dangerouslySetInnerHTML={{ __html: sanitizeHtml(description) }}
+              />
+            )}
+            <p className="text-muted-foreground">
+              {total} {total === 1 ? "post" : "posts"}
+            </p>
+          </Prose>
+
+          {header}
+
+          {posts.length > 0 ? (
+            <div className="grid md:grid-cols-3 gap-4">
+              {posts.map((post) => (
+                <PostCard key={post.id} post={post} />
+              ))}
+            </div>
+          ) : (
+            <div className="h-24 w-full border rounded-lg bg-accent/25 flex items-center justify-center">
+              <p>No posts found</p>
+            </div>
+          )}
+
+          <PostsPagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            basePath={basePath}
+          />
+        </div>
+      </Container>
+    </Section>
+  );
+}
@@ -1,32 +1,27 @@
 import Image from "next/image";
 import Link from "next/link";
 
-import { Post } from "@/lib/wordpress.d";
+import { PostWithRelations } from "@/lib/wordpress.d";
 import { cn } from "@/lib/utils";
+import { getReadingTime } from "@/lib/content";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+import { sanitizeInlineHtml } from "@/lib/sanitize";
 
-import {
-  getFeaturedMediaById,
-  getAuthorById,
-  getCategoryById,
-} from "@/lib/wordpress";
-
-export async function PostCard({ post }: { post: Post }) {
-  const media = post.featured_media
-    ? await getFeaturedMediaById(post.featured_media)
-    : null;
-  const author = post.author ? await getAuthorById(post.author) : null;
+export async function PostCard({ post }: { post: PostWithRelations }) {
+  const locale = await getLocale();
+  const { featuredMedia: media, categories } = post.relations;
   const date = new Date(post.date).toLocaleDateString("en-US", {
     month: "long",
     day: "numeric",
     year: "numeric",
   });
-  const category = post.categories?.[0]
-    ? await getCategoryById(post.categories[0])
-    : null;
+  const category = categories[0];
+  const readingTime = getReadingTime(post.content?.rendered ?? "");
 
   return (
     <Link
-      href={`/posts/${post.slug}`}
+      href={localizePath(`/posts/${post.slug}`, locale)}
       className={cn(
         "border p-4 bg-accent/30 rounded-lg group flex justify-between flex-col not-prose gap-8",
         "hover:bg-accent/75 transition-all"
@@ -50,7 +45,7 @@ export async function PostCard({ post }: { post: Post }) {
         </div>
         <div
           dangerouslySetInnerHTML={{
-            __html: post.title?.rendered || "Untitled Post",
+            __html: sanitizeInlineHtml(post.title?.rendered) || "Untitled Post",
           }}
           className="text-xl text-primary font-medium group-hover:underline decoration-muted-foreground underline-offset-4 decoration-dotted transition-all"
         ></div>
@@ -58,8 +53,9 @@ export async function PostCard({ post }: { post: Post }) {
           className="text-sm"
           dangerouslySetInnerHTML={{
             __html: post.excerpt?.rendered
-              ? post.excerpt.rendered.split(" ").slice(0, 12).join(" ").trim() +
-                "..."
+              ? sanitizeInlineHtml(
+                  post.excerpt.rendered.split(" ").slice(0, 12).join(" ").trim()
+                ) + "..."
               : "No excerpt available",
           }}
         ></div>
@@ -69,7 +65,9 @@ export async function PostCard({ post }: { post: Post }) {
         <hr />
         <div className="flex justify-between items-center text-xs">
           <p>{category?.name || "Uncategorized"}</p>
-          <p>{date}</p>
+          <p>
+            {date} · {readingTime.minutes} min read
+          </p>
         </div>
       </div>
     </Link>
@@ -0,0 +1,271 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Locale, localizePath } from "@/lib/i18n";
+
+import type { PostGraph as PostGraphData } from "@/lib/related-posts";
+
+const SIZE = 600;
+const RADIUS = 240;
+
+// Terms offered as filters above the graph
+const MAX_TERMS = 20;
+
+function truncate(text: string, length = 28) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Posts laid out on a circle, connected when they share a category or tag.
+// Selecting a post shows its connections; selecting a term shows its posts.
+export function PostGraph({
+  graph,
+  locale,
+}: {
+  graph: PostGraphData;
+  locale: Locale;
+}) {
+  const [selectedPost, setSelectedPost] = useState<number | null>(null);
+  const [selectedTerm, setSelectedTerm] = useState<string | null>(null);
+
+  const positions = useMemo(
+    () =>
+      new Map(
+        graph.nodes.map((node, index) => {
+          const angle =
+            (index / graph.nodes.length) * 2 * Math.PI - Math.PI / 2;
+          return [
+            node.id,
+            {
+              x: SIZE / 2 + RADIUS * Math.cos(angle),
+              y: SIZE / 2 + RADIUS * Math.sin(angle),
+            },
+          ];
+        })
+      ),
+    [graph.nodes]
+  );
+
+  const nodesById = useMemo(
+    () => new Map(graph.nodes.map((node) => [node.id, node])),
+    [graph.nodes]
+  );
+  const termsByKey = useMemo(
+    () => new Map(graph.terms.map((term) => [term.key, term])),
+    [graph.terms]
+  );
+  const maxScore = Math.max(1, ...graph.edges.map((edge) => edge.score));
+
+  const term = selectedTerm ? termsByKey.get(selectedTerm) : undefined;
+  const connections = graph.edges
+    .filter(
+      (edge) => edge.source === selectedPost || edge.target === selectedPost
+    )
+    .sort((a, b) => b.score - a.score);
+
+  const isEdgeActive = (edge: (typeof graph.edges)[number]) =>
+    selectedPost !== null
+      ? edge.source === selectedPost || edge.target === selectedPost
+      : selectedTerm !== null && edge.terms.includes(selectedTerm);
+
+  const isNodeActive = (id: number) =>
+    selectedPost !== null
+      ? id === selectedPost ||
+        connections.some((edge) => edge.source === id || edge.target === id)
+      : term
+        ? term.postIds.includes(id)
+        : true;
+
+  const selectPost = (id: number) => {
+    setSelectedTerm(null);
+    setSelectedPost((current) => (current === id ? null : id));
+  };
+
+  const selectTerm = (key: string) => {
+    setSelectedPost(null);
+    setSelectedTerm((current) => (current === key ? null : key));
+  };
+
+  if (graph.nodes.length === 0) {
+    return <p className="text-muted-foreground">No posts to explore yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {graph.terms.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {graph.terms.slice(0, MAX_TERMS).map((item) => (
+            <Button
+              key={item.key}
+              variant={item.key === selectedTerm ? "default" : "outline"}
+              size="sm"
+              onClick={() => selectTerm(item.key)}
+            >
+              {item.name}
+              <span className="text-xs opacity-60">{item.postIds.length}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full h-auto rounded-lg border bg-accent/25"
+          role="group"
+          aria-label="Posts connected by shared categories and tags"
+        >
+          {graph.edges.map((edge) => {
+            const source = positions.get(edge.source)!;
+            const target = positions.get(edge.target)!;
+            const active = isEdgeActive(edge);
+
+            return (
+              <line
+                key={`${edge.source}-${edge.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                className={cn(
+                  "stroke-foreground transition-opacity",
+                  active ? "opacity-60" : "opacity-10"
+                )}
+                strokeWidth={1 + (edge.score / maxScore) * 3}
+              />
+            );
+          })}
+
+          {graph.nodes.map((node) => {
+            const { x, y } = positions.get(node.id)!;
+            const selected = node.id === selectedPost;
+            const active = isNodeActive(node.id);
+            const showLabel =
+              (selectedPost !== null || term !== undefined) && active;
+
+            return (
+              <g
+                key={node.id}
+                role="button"
+                tabIndex={0}
+                aria-pressed={selected}
+                aria-label={node.title}
+                onClick={() => selectPost(node.id)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" || event.key === " ") {
+                    event.preventDefault();
+                    selectPost(node.id);
+                  }
+                }}
+                className={cn(
+                  "cursor-pointer outline-none transition-opacity",
+                  active ? "opacity-100" : "opacity-30"
+                )}
+              >
+                <title>{node.title}</title>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={selected ? 10 : 7}
+                  className={cn(
+                    "stroke-background stroke-2",
+                    selected ? "fill-primary" : "fill-muted-foreground"
+                  )}
+                />
+                {showLabel && (
+                  <text
+                    x={x}
+                    y={y - 14}
+                    textAnchor="middle"
+                    className="fill-foreground text-[11px]"
+                  >
+                    {truncate(node.title)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        <aside className="rounded-lg border p-4 text-sm space-y-4">
+          {selectedPost !== null ? (
+            <>
+              <Link
+                href={localizePath(
+                  `/posts/${nodesById.get(selectedPost)!.slug}`,
+                  locale
+                )}
+                className="block text-base font-semibold hover:text-primary"
+              >
+                {nodesById.get(selectedPost)!.title}
+              </Link>
+              {connections.length > 0 ? (
+                <ul className="space-y-3">
+                  {connections.map((edge) => {
+                    const other = nodesById.get(
+                      edge.source === selectedPost ? edge.target : edge.source
+                    )!;
+
+                    return (
+                      <li key={other.id} className="space-y-1">
+                        <button
+                          type="button"
+                          onClick={() => selectPost(other.id)}
+                          className="text-left hover:text-primary"
+                        >
+                          {other.title}
+                        </button>
+                        <div className="flex flex-wrap gap-1">
+                          {edge.terms.map((key) => (
+                            <Badge key={key} variant="outline">
+                              {termsByKey.get(key)?.name ?? "Shared term"}
+                            </Badge>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-muted-foreground">
+                  This post shares no categories or tags with the others.
+                </p>
+              )}
+            </>
+          ) : term ? (
+            <>
+              <Link
+                href={localizePath(term.href, locale)}
+                className="block text-base font-semibold hover:text-primary"
+              >
+                {term.name}
+              </Link>
+              <ul className="space-y-2">
+                {term.postIds.map((id) => (
+                  <li key={id}>
+                    <button
+                      type="button"
+                      onClick={() => selectPost(id)}
+                      className="text-left hover:text-primary"
+                    >
+                      {nodesById.get(id)?.title}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-muted-foreground">
+              Select a post to see how it connects to the others, or a topic to
+              see the posts it brings together.
+            </p>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
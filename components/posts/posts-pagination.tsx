@@ -0,0 +1,100 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { localizePath } from "@/lib/i18n";
+import { getLocale } from "@/lib/request-locale";
+
+interface PostsPaginationProps {
+  currentPage: number;
+  totalPages: number;
+  basePath: string;
+  searchParams?: Record<string, string | undefined>;
+}
+
+// Returns the page numbers to render, always keeping the first and last page
+// and the pages around the current one. `null` marks a gap for an ellipsis.
+export function getPageRange(
+  currentPage: number,
+  totalPages: number,
+  siblings = 1
+): (number | null)[] {
+  const pages: (number | null)[] = [];
+  const start = Math.max(2, currentPage - siblings);
+  const end = Math.min(totalPages - 1, currentPage + siblings);
+
+  pages.push(1);
+  if (start > 2) pages.push(null);
+  for (let page = start; page <= end; page++) {
+    pages.push(page);
+  }
+  if (end < totalPages - 1) pages.push(null);
+  if (totalPages > 1) pages.push(totalPages);
+
+  return pages;
+}
+
+export async function PostsPagination({
+  currentPage,
+  totalPages,
+  basePath,
+  searchParams = {},
+}: PostsPaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const path = localizePath(basePath, await getLocale());
+
+  // Create pagination URL helper, keeping the active filters
+  const createPaginationUrl = (page: number) => {
+    const params = new URLSearchParams();
+    if (page > 1) params.set("page", page.toString());
+    Object.entries(searchParams).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return `${path}${params.toString() ? `?${params.toString()}` : ""}`;
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            className={currentPage <= 1 ? "pointer-events-none opacity-50" : ""}
+            href={createPaginationUrl(Math.max(1, currentPage - 1))}
+          />
+        </PaginationItem>
+        {getPageRange(currentPage, totalPages).map((page, index) =>
+          page === null ? (
+            <PaginationItem key={`ellipsis-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={page}>
+              <PaginationLink
+                href={createPaginationUrl(page)}
+                isActive={page === currentPage}
+              >
+                {page}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            className={
+              currentPage >= totalPages ? "pointer-events-none opacity-50" : ""
+            }
+            href={createPaginationUrl(Math.min(totalPages, currentPage + 1))}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
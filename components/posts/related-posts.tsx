@@ -0,0 +1,32 @@
+import { PostCard } from "@/components/posts/post-card";
+import { getRelatedPosts } from "@/lib/related-posts";
+
+// "Read next" section under an article, hidden when nothing is related
+export async function RelatedPosts({
+  postId,
+  limit = 3,
+}: {
+  postId: number;
+  limit?: number;
+}) {
+  // Optional content; a failure shouldn't take the article down with it
+  const posts = await getRelatedPosts(postId, { limit }).catch((error) => {
+    console.error("Failed to fetch related posts:", error);
+    return [];
+  });
+
+  if (posts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-16 border-t pt-8">
+      <h2 className="text-2xl font-semibold mb-6">Read next</h2>
+      <div className="grid md:grid-cols-3 gap-4">
+        {posts.map((post) => (
+          <PostCard key={post.id} post={post} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -5,17 +5,27 @@ import { Input } from "@/components/ui/input";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import { useDebouncedCallback } from "use-debounce";
 
-export function SearchInput({ defaultValue }: { defaultValue?: string }) {
+export function SearchInput({
+  defaultValue,
+  name = "search",
+  placeholder = "Search posts...",
+}: {
+  defaultValue?: string;
+  name?: string;
+  placeholder?: string;
+}) {
   const searchParams = useSearchParams();
   const pathname = usePathname();
   const { replace } = useRouter();
 
   const handleSearch = useDebouncedCallback((term: string) => {
     const params = new URLSearchParams(searchParams);
+    // A new search starts over from the first page
+    params.delete("page");
     if (term) {
-      params.set("search", term);
+      params.set(name, term);
     } else {
-      params.delete("search");
+      params.delete(name);
     }
     replace(`${pathname}?${params.toString()}`);
   }, 300);
@@ -23,8 +33,8 @@ export function SearchInput({ defaultValue }: { defaultValue?: string }) {
   return (
     <Input
       type="text"
-      name="search"
-      placeholder="Search posts..."
+      name={name}
+      placeholder={placeholder}
       defaultValue={defaultValue}
       onChange={(e) => handleSearch(e.target.value)}
     />
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { cn } from "@/lib/utils";
+
+import type { Heading, TocItem } from "@/lib/content";
+
+function flatten(items: TocItem[]): Heading[] {
+  return items.flatMap((item) => [item, ...flatten(item.children)]);
+}
+
+// Id of the last heading scrolled past the top of the viewport
+function useActiveHeading(ids: string[]) {
+  const [active, setActive] = useState<string | null>(ids[0] ?? null);
+
+  useEffect(() => {
+    const elements = ids
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null);
+
+    if (elements.length === 0) {
+      return;
+    }
+
+    const update = () => {
+      // Below the sticky nav
+      const offset = 120;
+      const current = elements.filter(
+        (element) => element.getBoundingClientRect().top <= offset
+      );
+      setActive((current[current.length - 1] ?? elements[0]).id);
+    };
+
+    // Recomputed whenever a heading enters or leaves the viewport
+    const observer = new IntersectionObserver(update, {
+      rootMargin: "0px 0px -60% 0px",
+    });
+    elements.forEach((element) => observer.observe(element));
+    update();
+
+    return () => observer.disconnect();
+  }, [ids]);
+
+  return active;
+}
+
+function TocList({
+  items,
+  active,
+  nested = false,
+}: {
+  items: TocItem[];
+  active: string | null;
+  nested?: boolean;
+}) {
+  return (
+    <ul className={cn("space-y-2", nested && "mt-2 pl-4")}>
+      {items.map((item) => (
+        <li key={item.id}>
+          <a
+            href={`#${item.id}`}
+            aria-current={item.id === active ? "location" : undefined}
+            className={cn(
+              "-ml-px block border-l pl-4 hover:text-foreground",
+              item.id === active
+                ? "border-primary font-medium text-foreground"
+                : "border-transparent text-muted-foreground"
+            )}
+          >
+            {item.text}
+          </a>
+          {item.children.length > 0 && (
+            <TocList items={item.children} active={active} nested />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Sticky table of contents with the heading in view highlighted
+export function TableOfContents({ items }: { items: TocItem[] }) {
+  const [ids] = useState(() => flatten(items).map((heading) => heading.id));
+  const active = useActiveHeading(ids);
+
+  return (
+    <aside className="not-prose text-sm">
+      <nav aria-label="Table of contents" className="sticky top-24 space-y-3">
+        <p className="font-medium">On this page</p>
+        <div className="border-l">
+          <TocList items={items} active={active} />
+        </div>
+      </nav>
+    </aside>
+  );
+}
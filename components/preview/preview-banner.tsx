@@ -0,0 +1,27 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Eye } from "lucide-react";
+
+export function PreviewBanner() {
+  const pathname = usePathname();
+
+  return (
+    <div className="sticky top-0 z-[60] bg-amber-400 text-amber-950 text-sm">
+      <div className="max-w-5xl mx-auto px-6 sm:px-8 py-2 flex items-center justify-between gap-4">
+        <p className="flex items-center gap-2 font-medium">
+          <Eye className="h-4 w-4" />
+          Preview mode: you are viewing unpublished content.
+        </p>
+        <Link
+          href={`/api/preview/exit?redirect=${encodeURIComponent(pathname)}`}
+          prefetch={false}
+          className="underline underline-offset-4 hover:opacity-75"
+        >
+          Exit preview
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Wrap every occurrence of the query's words in `text` with <mark>
+export function Highlight({ text, query }: { text: string; query: string }) {
+  const words = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+
+  if (words.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${words.join("|")})`, "gi");
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // Odd indexes are the captured matches
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40"
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
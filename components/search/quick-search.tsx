@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useDebouncedCallback } from "use-debounce";
+import { Loader2, Search } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Highlight } from "@/components/search/highlight";
+import { cn } from "@/lib/utils";
+import { Locale, localizePath } from "@/lib/i18n";
+
+import type { UnifiedSearchResponse, UnifiedSearchResult } from "@/lib/search";
+
+// Command palette opened from the nav or with Cmd/Ctrl+K.
+// Uses the same search as the `/search` page through `/api/search`.
+export function QuickSearch({
+  locale,
+  className,
+}: {
+  locale: Locale;
+  className?: string;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<UnifiedSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const getResultsPath = (term: string) =>
+    localizePath(`/search?q=${encodeURIComponent(term.trim())}`, locale);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const search = useDebouncedCallback(async (term: string) => {
+    if (term.trim().length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ q: term, locale });
+      const response = await fetch(`/api/search?${params.toString()}`);
+      const data: UnifiedSearchResponse = await response.json();
+      setResults(data.results ?? []);
+      setActiveIndex(0);
+    } catch (error) {
+      console.error("Quick search failed:", error);
+      setResults([]);
+    } finally {
+      setLoading(false);
+    }
+  }, 300);
+
+  const handleChange = (term: string) => {
+    setQuery(term);
+    setLoading(true);
+    search(term);
+  };
+
+  const navigate = (href: string) => {
+    setOpen(false);
+    router.push(href);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && query.trim()) {
+      event.preventDefault();
+      // Enter opens the highlighted result, or the full results page
+      const result = results[activeIndex];
+      navigate(result ? result.url : getResultsPath(query));
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setQuery("");
+      setResults([]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("gap-2 text-muted-foreground", className)}
+        >
+          <Search className="h-4 w-4" />
+          <span className="hidden lg:inline">Search</span>
+          <kbd className="hidden lg:inline rounded border bg-muted px-1.5 font-mono text-[10px]">
+            ⌘K
+          </kbd>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="gap-0 p-0 overflow-hidden">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-4">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search posts, pages, courses and products..."
+            className="border-0 shadow-none focus-visible:ring-0 h-12"
+          />
+          {loading && (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto p-2">
+          {results.length > 0 ? (
+            <ul role="listbox">
+              {results.map((result, index) => (
+                <li
+                  key={result.id}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                >
+                  <button
+                    type="button"
+                    onClick={() => navigate(result.url)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={cn(
+                      "flex w-full items-center justify-between gap-4 rounded-md px-3 py-2 text-left text-sm",
+                      index === activeIndex && "bg-accent"
+                    )}
+                  >
+                    <span className="truncate">
+                      <Highlight text={result.title} query={query} />
+                    </span>
+                    <Badge variant="outline" className="capitalize shrink-0">
+                      {result.type}
+                    </Badge>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {query.trim().length < 2
+                ? "Type to search"
+                : loading
+                  ? "Searching..."
+                  : "No results found"}
+            </p>
+          )}
+        </div>
+
+        {query.trim() && (
+          <button
+            type="button"
+            onClick={() => navigate(getResultsPath(query))}
+            className="border-t px-4 py-3 text-left text-sm text-muted-foreground hover:bg-accent"
+          >
+            See all results for &ldquo;{query.trim()}&rdquo;
+          </button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,13 @@
+// Languages the site is served in. Each locale gets a URL prefix, e.g.
+// `/ko/posts/...`, and its code is passed to WordPress as the language slug
+// configured in Polylang or WPML.
+
+export const i18nConfig = {
+  locales: ["en", "ko"],
+  defaultLocale: "en",
+  // Shown in the language switcher, in their own language
+  labels: {
+    en: "English",
+    ko: "한국어",
+  },
+} as const;
@@ -0,0 +1,156 @@
+// Description: Gutenberg block parsing utilities
+// Parses serialized block markup (`content.raw`) into `EditorBlock` trees,
+// following the same output shape as WordPress' `parse_blocks()`
+
+import { EditorBlock } from "./wordpress.d";
+
+// Matches block comment delimiters:
+// <!-- wp:name {"attrs"} -->, <!-- /wp:name --> and <!-- wp:name /-->
+const blockTokenizer =
+  /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+({[\s\S]*?}\s+)?(\/)?-->/g;
+
+interface BlockFrame {
+  block: EditorBlock;
+}
+
+function createBlock(
+  name: string,
+  attributes: Record<string, unknown>,
+  id: string
+): EditorBlock {
+  return {
+    id,
+    name,
+    attributes,
+    innerBlocks: [],
+    innerHTML: "",
+    innerContent: [],
+  };
+}
+
+function parseAttributes(json: string | undefined): Record<string, unknown> {
+  if (!json) return {};
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+function appendHTML(block: EditorBlock, html: string) {
+  if (!html) return;
+  block.innerHTML += html;
+  block.innerContent.push(html);
+}
+
+function appendInnerBlock(parent: EditorBlock, block: EditorBlock) {
+  parent.innerBlocks.push(block);
+  parent.innerContent.push(null);
+}
+
+// Parse serialized block markup into a tree of blocks.
+// HTML outside of any block becomes a `core/freeform` block.
+export function parseBlocks(content: string): EditorBlock[] {
+  const output: EditorBlock[] = [];
+  const stack: BlockFrame[] = [];
+  let offset = 0;
+  let count = 0;
+
+  const addFreeform = (html: string) => {
+    if (!html.trim()) return;
+    const block = createBlock("core/freeform", {}, `block-${count++}`);
+    appendHTML(block, html);
+    output.push(block);
+  };
+
+  const addBlock = (block: EditorBlock) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      appendInnerBlock(parent.block, block);
+    } else {
+      output.push(block);
+    }
+  };
+
+  const addHTML = (html: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      appendHTML(parent.block, html);
+    } else {
+      addFreeform(html);
+    }
+  };
+
+  for (const match of content.matchAll(blockTokenizer)) {
+    const [token, isCloser, namespace, name, json, isVoid] = match;
+    const blockName = `${namespace ?? "core/"}${name}`;
+
+    addHTML(content.slice(offset, match.index));
+    offset = (match.index ?? 0) + token.length;
+
+    if (isCloser) {
+      const frame = stack.pop();
+      if (frame) addBlock(frame.block);
+      continue;
+    }
+
+    const block = createBlock(
+      blockName,
+      parseAttributes(json?.trim()),
+      `block-${count++}`
+    );
+
+    if (isVoid) {
+      addBlock(block);
+    } else {
+      stack.push({ block });
+    }
+  }
+
+  addHTML(content.slice(offset));
+
+  // Close any blocks left open by malformed markup
+  while (stack.length > 0) {
+    const frame = stack.pop();
+    if (frame) addBlock(frame.block);
+  }
+
+  return output;
+}
+
+// Rebuild the HTML of a block with its inner blocks in place
+export function getBlockHTML(block: EditorBlock): string {
+  let innerBlockIndex = 0;
+
+  return block.innerContent
+    .map((chunk) =>
+      chunk === null
+        ? getBlockHTML(block.innerBlocks[innerBlockIndex++])
+        : chunk
+    )
+    .join("");
+}
+
+// Get the contents of the first `tag` element in an HTML string
+export function getTagContent(html: string, tag: string): string | null {
+  const match = html.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i")
+  );
+  return match ? match[1] : null;
+}
+
+// Get an attribute value of the first `tag` element in an HTML string
+export function getTagAttribute(
+  html: string,
+  tag: string,
+  attribute: string
+): string | null {
+  const element = html.match(new RegExp(`<${tag}(?:\\s[^>]*)?>`, "i"));
+  if (!element) return null;
+
+  const match = element[0].match(
+    new RegExp(`\\s${attribute}=(?:"([^"]*)"|'([^']*)')`, "i")
+  );
+  return match ? (match[1] ?? match[2]) : null;
+}
@@ -0,0 +1,198 @@
+// Description: Maps WordPress permalinks in post content to Next routes
+// Links to the WordPress origin are resolved by their permalink structure:
+// pages by their full path, then categories, tags, authors, courses, custom
+// post types, date archives and posts (`wpConfig.permalinks`). Anything else,
+// e.g. uploads, the shop or the login page, keeps pointing at WordPress.
+// Paths get the locale of the permalink's language directory (`/ko/...`), or
+// the locale of the current request.
+
+import { getPageHierarchy } from "./wordpress";
+import { getPageHref } from "./page-tree";
+import { localizePath, splitLocale } from "./i18n";
+import { getPeriodPath, parsePeriod } from "./post-archives";
+import { getLocale } from "./request-locale";
+import { EditorBlock, PageSummary } from "./wordpress.d";
+import { wpConfig } from "@/wp.config";
+
+export type LinkResolver = (href: string) => string | null;
+
+// Paths served by WordPress itself
+const wordpressPaths =
+  /^\/(wp-content|wp-admin|wp-includes|wp-json|feed)(\/|$)|\.php$/;
+
+// Patterns of the structure tags WordPress permalinks can use
+const structureTags: Record<string, string> = {
+  "%year%": "\\d{4}",
+  "%monthnum%": "\\d{2}",
+  "%day%": "\\d{2}",
+  "%hour%": "\\d{2}",
+  "%minute%": "\\d{2}",
+  "%second%": "\\d{2}",
+  "%post_id%": "\\d+",
+  "%postname%": "(?<slug>[^/]+)",
+  "%category%": "[^/]+(?:/[^/]+)*",
+  "%author%": "[^/]+",
+};
+
+function getWordPressOrigin() {
+  try {
+    return new URL(process.env.WORDPRESS_URL ?? "").origin;
+  } catch {
+    return null;
+  }
+}
+
+function normalizePath(pathname: string) {
+  return `/${pathname.split("/").filter(Boolean).join("/")}`;
+}
+
+// Matches post permalinks, e.g. `/%year%/%monthnum%/%postname%/`. Structures
+// without `%postname%` have no slug to resolve.
+function getPostPattern(structure: string): RegExp | null {
+  if (!structure.includes("%postname%")) return null;
+
+  const source = normalizePath(structure)
+    .split(/(%[a-z_]+%)/)
+    .map(
+      (part) =>
+        structureTags[part] ?? part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+
+  return new RegExp(`^${source}$`);
+}
+
+const postPattern = getPostPattern(wpConfig.permalinks.post);
+
+function resolvePath(
+  segments: string[],
+  pagesByPath: Map<string, string>
+): string | null {
+  const path = `/${segments.join("/")}`;
+  const [first, second] = segments;
+  const last = segments[segments.length - 1];
+
+  if (segments.length === 0) return "/";
+  if (pagesByPath.has(path)) return pagesByPath.get(path)!;
+
+  const { categoryBase, tagBase } = wpConfig.permalinks;
+
+  // Nested categories end with the child, e.g. /category/news/local
+  if (first === categoryBase && second) return `/posts/categories/${last}`;
+  if (first === tagBase && second) return `/posts/tags/${second}`;
+  if (first === "author" && second) return `/authors/${second}`;
+
+  // Tutor LMS courses and the WooCommerce products that back course pages
+  if ((first === "courses" || first === "product") && second) {
+    return `/courses/${second}`;
+  }
+
+  const postType = Object.entries(wpConfig.postTypes).find(
+    ([name, config]) => first === name || first === config.restBase
+  )?.[0];
+  if (postType && second) return `/${postType}/${last}`;
+
+  // Date archives: /2024, /2024/05 and /2024/05/14, which opens its month
+  if (segments.every((segment) => /^\d+$/.test(segment))) {
+    const period = parsePeriod(first, second);
+    return period ? getPeriodPath(period) : null;
+  }
+
+  const slug = postPattern?.exec(path)?.groups?.slug;
+  return slug ? `/posts/${slug}` : null;
+}
+
+// Resolves absolute WordPress URLs to Next paths, keeping the query and hash.
+// Returns null for other sites and for files served by WordPress.
+export async function getLinkResolver(): Promise<LinkResolver> {
+  const origin = getWordPressOrigin();
+  const locale = await getLocale();
+  const pages: PageSummary[] = origin
+    ? await getPageHierarchy().catch(() => [])
+    : [];
+
+  const pagesByPath = new Map(
+    pages.flatMap((page) => {
+      try {
+        return [
+          [
+            splitLocale(normalizePath(new URL(page.link).pathname)).path,
+            getPageHref(page, pages),
+          ],
+        ] as [string, string][];
+      } catch {
+        return [];
+      }
+    })
+  );
+
+  return (href) => {
+    if (!origin) return null;
+
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch {
+      return null;
+    }
+
+    if (url.origin !== origin || wordpressPaths.test(url.pathname)) {
+      return null;
+    }
+
+    // `?p=123` and `?page_id=123` links need a lookup by id
+    if (url.searchParams.has("p") || url.searchParams.has("page_id")) {
+      return null;
+    }
+
+    // Polylang and WPML can put the language in the first path segment
+    const language = splitLocale(url.pathname);
+    const path = resolvePath(
+      language.path.split("/").filter(Boolean),
+      pagesByPath
+    );
+
+    return path === null
+      ? null
+      : localizePath(
+          `${path}${url.search}${url.hash}`,
+          language.locale ?? locale
+        );
+  };
+}
+
+// Rewrites `href` attributes in an HTML string
+export function rewriteLinks(html: string, resolve: LinkResolver): string {
+  return html.replace(
+    /(<a\s[^>]*?href=")([^"]*)(")/gi,
+    (match, before: string, href: string, after: string) => {
+      const path = resolve(href.replace(/&amp;/g, "&"));
+      return path === null
+        ? match
+        : `${before}${path.replace(/&/g, "&amp;")}${after}`;
+    }
+  );
+}
+
+// Rewrites links in parsed blocks and their `url` attribute, e.g. buttons
+export function rewriteBlockLinks(
+  blocks: EditorBlock[],
+  resolve: LinkResolver
+): EditorBlock[] {
+  return blocks.map((block) => {
+    const { url } = block.attributes;
+
+    return {
+      ...block,
+      attributes:
+        typeof url === "string" && resolve(url) !== null
+          ? { ...block.attributes, url: resolve(url) }
+          : block.attributes,
+      innerHTML: rewriteLinks(block.innerHTML, resolve),
+      innerContent: block.innerContent.map((chunk) =>
+        chunk === null ? null : rewriteLinks(chunk, resolve)
+      ),
+      innerBlocks: rewriteBlockLinks(block.innerBlocks, resolve),
+    };
+  });
+}
@@ -0,0 +1,159 @@
+// Description: Post content helpers for headings and reading time
+// Headings get stable ids so the table of contents can link to them, whether
+// the post is rendered from `content.rendered` or from parsed blocks
+
+import { decodeEntities } from "./navigation";
+import { EditorBlock } from "./wordpress.d";
+
+export interface Heading {
+  id: string;
+  text: string;
+  level: 2 | 3 | 4;
+}
+
+export interface TocItem extends Heading {
+  children: TocItem[];
+}
+
+export interface ReadingTime {
+  words: number;
+  minutes: number;
+}
+
+const WORDS_PER_MINUTE = 225;
+
+// Matches h2–h4 elements, with the level in the first group
+const headingPattern = /<h([2-4])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi;
+
+// Keeps letters and digits of any script, e.g. `한국어-제목`. Accents are
+// dropped from Latin letters; NFC puts decomposed Hangul back together.
+function slugify(text: string) {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .normalize("NFC")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
+
+// Ids derived from heading text, suffixed with -2, -3, ... when repeated.
+// Ids set in WordPress are kept as-is.
+function createHeadingIds() {
+  const used = new Set<string>();
+
+  return (text: string, existing?: string | null) => {
+    if (existing) {
+      used.add(existing);
+      return existing;
+    }
+
+    const base = slugify(text);
+    let id = base;
+    for (let count = 2; used.has(id); count++) {
+      id = `${base}-${count}`;
+    }
+    used.add(id);
+    return id;
+  };
+}
+
+function getIdAttribute(attributes = "") {
+  return attributes
+    .match(/\sid=(?:"([^"]*)"|'([^']*)')/i)
+    ?.slice(1)
+    .find(Boolean);
+}
+
+// Adds an id to every h2–h4 in rendered post content
+export function addHeadingAnchors(html: string): {
+  html: string;
+  headings: Heading[];
+} {
+  const getId = createHeadingIds();
+  const headings: Heading[] = [];
+
+  const output = html.replace(
+    headingPattern,
+    (element, level: string, attributes = "", content: string) => {
+      const text = decodeEntities(content).trim();
+      const existing = getIdAttribute(attributes);
+      const id = getId(text, existing);
+
+      if (text) {
+        headings.push({ id, text, level: Number(level) as Heading["level"] });
+      }
+
+      return existing
+        ? element
+        : `<h${level} id="${id}"${attributes}>${content}</h${level}>`;
+    }
+  );
+
+  return { html: output, headings };
+}
+
+// Sets the `anchor` of every h2–h4 heading block, in document order
+export function addBlockHeadingAnchors(blocks: EditorBlock[]): {
+  blocks: EditorBlock[];
+  headings: Heading[];
+} {
+  const getId = createHeadingIds();
+  const headings: Heading[] = [];
+
+  const visit = (block: EditorBlock): EditorBlock => {
+    if (block.name !== "core/heading") {
+      return { ...block, innerBlocks: block.innerBlocks.map(visit) };
+    }
+
+    const level = Number(block.attributes.level ?? 2);
+    const match = block.innerHTML.match(
+      /<h[1-6](\s[^>]*)?>([\s\S]*?)<\/h[1-6]>/i
+    );
+    const text = decodeEntities(match?.[2] ?? block.innerHTML).trim();
+
+    if (level < 2 || level > 4 || !text) {
+      return block;
+    }
+
+    const existing =
+      (block.attributes.anchor as string | undefined) ??
+      getIdAttribute(match?.[1]);
+    const id = getId(text, existing);
+    headings.push({ id, text, level: level as Heading["level"] });
+
+    return { ...block, attributes: { ...block.attributes, anchor: id } };
+  };
+
+  return { blocks: blocks.map(visit), headings };
+}
+
+// Nests headings under the closest preceding heading of a higher level
+export function buildTableOfContents(headings: Heading[]): TocItem[] {
+  const root: TocItem[] = [];
+  const stack: TocItem[] = [];
+
+  headings.forEach((heading) => {
+    const item: TocItem = { ...heading, children: [] };
+
+    while (stack.length && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+
+    (stack.length ? stack[stack.length - 1].children : root).push(item);
+    stack.push(item);
+  });
+
+  return root;
+}
+
+export function getReadingTime(html: string): ReadingTime {
+  // Tags are replaced with spaces so adjacent paragraphs stay separate words
+  const words = decodeEntities(html.replace(/<[^>]*>/g, " "))
+    .split(/\s+/)
+    .filter(Boolean).length;
+
+  return { words, minutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)) };
+}
@@ -0,0 +1,247 @@
+// Description: RSS 2.0, Atom 1.0 and JSON Feed 1.1 output for posts
+// Feeds are rendered by the `feed.xml`, `atom.xml` and `feed.json` routes
+
+import { defaultLocale, getItemLocale, localizePath } from "./i18n";
+import { withRelations } from "./wordpress";
+import { Post, PostWithRelations } from "./wordpress.d";
+import { siteConfig } from "@/site.config";
+
+export const feedFormats = {
+  "feed.xml": "application/rss+xml",
+  "atom.xml": "application/atom+xml",
+  "feed.json": "application/feed+json",
+} as const;
+
+export type FeedFormat = keyof typeof feedFormats;
+
+export interface FeedOptions {
+  title: string;
+  description: string;
+  // Site path the feed belongs to, e.g. `/posts/tags/react`
+  path: string;
+}
+
+// Number of posts in each feed
+const FEED_SIZE = 20;
+
+export function isFeedFormat(format: string): format is FeedFormat {
+  return Object.hasOwn(feedFormats, format);
+}
+
+// Feed URLs of a site path, for `alternates.types` in page metadata
+export function getFeedAlternates(path: string, title: string) {
+  const base = `${siteConfig.site_domain}${path === "/" ? "" : path}`;
+
+  return {
+    "application/rss+xml": [{ url: `${base}/feed.xml`, title }],
+    "application/atom+xml": [{ url: `${base}/atom.xml`, title }],
+    "application/feed+json": [{ url: `${base}/feed.json`, title }],
+  };
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function cdata(text: string) {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function stripHtml(html: string) {
+  return html.replace(/<[^>]*>/g, "").trim();
+}
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  content: string;
+  published: Date;
+  updated: Date;
+  author?: { name: string; url: string; avatar?: string };
+  categories: string[];
+  image?: { url: string; type: string; length: number };
+}
+
+function toFeedItem(post: PostWithRelations): FeedItem {
+  const { author, featuredMedia, categories, tags } = post.relations;
+  // Feeds have no locale prefix, so items link to the post's own language
+  const locale = getItemLocale(post) ?? defaultLocale;
+  const link = (path: string) =>
+    `${siteConfig.site_domain}${localizePath(path, locale)}`;
+  const url = link(`/posts/${post.slug}`);
+
+  return {
+    id: url,
+    url,
+    title: stripHtml(post.title.rendered),
+    summary: post.excerpt.rendered,
+    content:
+      siteConfig.feed_content === "full"
+        ? post.content.rendered
+        : post.excerpt.rendered,
+    published: new Date(post.date_gmt + "Z"),
+    updated: new Date(post.modified_gmt + "Z"),
+    author: author
+      ? {
+          name: author.name,
+          url: link(`/authors/${author.slug}`),
+          avatar: author.avatar_urls?.["96"],
+        }
+      : undefined,
+    categories: [...categories, ...tags].map((term) => term.name),
+    image: featuredMedia?.source_url
+      ? {
+          url: featuredMedia.source_url,
+          type: featuredMedia.mime_type,
+          length: featuredMedia.media_details?.filesize ?? 0,
+        }
+      : undefined,
+  };
+}
+
+function renderRss(items: FeedItem[], options: FeedOptions, feedUrl: string) {
+  const siteUrl = `${siteConfig.site_domain}${options.path}`;
+  const entries = items.map(
+    (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+${item.author ? `      <dc:creator>${escapeXml(item.author.name)}</dc:creator>\n` : ""}${item.categories
+      .map((category) => `      <category>${escapeXml(category)}</category>\n`)
+      .join("")}      <description>${cdata(item.summary)}</description>
+      <content:encoded>${cdata(item.content)}</content:encoded>
+${
+  item.image
+    ? `      <enclosure url="${escapeXml(item.image.url)}" length="${item.image.length}" type="${escapeXml(item.image.type)}" />\n`
+    : ""
+}    </item>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(siteUrl)}</link>
+    <description>${escapeXml(options.description)}</description>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${(items[0]?.updated ?? new Date()).toUTCString()}</lastBuildDate>
+${entries.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(items: FeedItem[], options: FeedOptions, feedUrl: string) {
+  const siteUrl = `${siteConfig.site_domain}${options.path}`;
+  const updated = items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+  const entries = items.map(
+    (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+${
+  item.author
+    ? `    <author>
+      <name>${escapeXml(item.author.name)}</name>
+      <uri>${escapeXml(item.author.url)}</uri>
+    </author>\n`
+    : ""
+}${item.categories
+      .map((category) => `    <category term="${escapeXml(category)}" />\n`)
+      .join("")}    <summary type="html">${escapeXml(item.summary)}</summary>
+    <content type="html">${escapeXml(item.content)}</content>
+${
+  item.image
+    ? `    <link rel="enclosure" href="${escapeXml(item.image.url)}" type="${escapeXml(item.image.type)}" length="${item.image.length}" />\n`
+    : ""
+}  </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(siteUrl)}</id>
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <link href="${escapeXml(siteUrl)}" />
+  <link href="${escapeXml(feedUrl)}" rel="self" type="application/atom+xml" />
+  <updated>${(items.length ? updated : new Date()).toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+function renderJson(items: FeedItem[], options: FeedOptions, feedUrl: string) {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: options.title,
+      description: options.description,
+      home_page_url: `${siteConfig.site_domain}${options.path}`,
+      feed_url: feedUrl,
+      items: items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: stripHtml(item.summary),
+        content_html: item.content,
+        image: item.image?.url,
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+        authors: item.author ? [item.author] : undefined,
+        tags: item.categories,
+        attachments: item.image
+          ? [
+              {
+                url: item.image.url,
+                mime_type: item.image.type,
+                size_in_bytes: item.image.length || undefined,
+              },
+            ]
+          : undefined,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// Render the latest posts as a feed response
+export async function createFeedResponse(
+  format: FeedFormat,
+  posts: Post[],
+  options: FeedOptions
+): Promise<Response> {
+  // Password protected posts are left out, feeds can't ask for the password
+  const published = posts.filter((post) => !post.content.protected);
+  const items = (await withRelations(published.slice(0, FEED_SIZE))).map(
+    toFeedItem
+  );
+  const base = `${siteConfig.site_domain}${options.path === "/" ? "" : options.path}`;
+  const feedUrl = `${base}/${format}`;
+
+  const body =
+    format === "feed.xml"
+      ? renderRss(items, options, feedUrl)
+      : format === "atom.xml"
+        ? renderAtom(items, options, feedUrl)
+        : renderJson(items, options, feedUrl);
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${feedFormats[format]}; charset=utf-8`,
+    },
+  });
+}
@@ -0,0 +1,119 @@
+// Description: Minimal HTML parser for sanitized content
+// Turns the output of `sanitizeHtml` into a node tree that can be rendered as
+// React elements. It relies on the sanitizer for well-formed, balanced markup.
+
+export type HtmlNode = HtmlText | HtmlElement;
+
+export interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+export interface HtmlElement {
+  type: "element";
+  tag: string;
+  // Decoded values; `null` for boolean attributes such as `allowfullscreen`
+  attributes: Record<string, string | null>;
+  children: HtmlNode[];
+}
+
+const voidTags = new Set(["br", "col", "hr", "img", "source", "track", "wbr"]);
+
+const tagPattern =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+
+const attributePattern =
+  /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// Named entities WordPress emits; `wptexturize` uses numeric ones otherwise
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  hellip: "…",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  times: "×",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === "#") {
+        const point =
+          code[1] === "x" || code[1] === "X"
+            ? parseInt(code.slice(2), 16)
+            : Number(code.slice(1));
+        return point > 0 && point <= 0x10ffff
+          ? String.fromCodePoint(point)
+          : entity;
+      }
+      return namedEntities[code.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+function parseAttributes(source: string): HtmlElement["attributes"] {
+  const attributes: HtmlElement["attributes"] = {};
+
+  for (const match of source.matchAll(attributePattern)) {
+    const value = match[2] ?? match[3] ?? match[4];
+    attributes[match[1].toLowerCase()] =
+      value === undefined ? null : decodeHtmlEntities(value);
+  }
+
+  return attributes;
+}
+
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlNode[] = [];
+  const stack: HtmlElement[] = [];
+  let index = 0;
+
+  const append = (node: HtmlNode) =>
+    (stack.length ? stack[stack.length - 1].children : root).push(node);
+
+  const appendText = (text: string) => {
+    if (text) append({ type: "text", text: decodeHtmlEntities(text) });
+  };
+
+  for (const match of html.matchAll(tagPattern)) {
+    appendText(html.slice(index, match.index));
+    index = match.index + match[0].length;
+
+    const [, closing, name, attributes] = match;
+    const tag = name.toLowerCase();
+
+    if (closing) {
+      const open = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (open !== -1) stack.length = open;
+      continue;
+    }
+
+    const element: HtmlElement = {
+      type: "element",
+      tag,
+      attributes: parseAttributes(attributes),
+      children: [],
+    };
+    append(element);
+
+    if (!voidTags.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  appendText(html.slice(index));
+  return root;
+}
@@ -0,0 +1,101 @@
+// Description: Locale helpers shared by the middleware, server and client code
+// Pages are served under a locale prefix such as `/ko/posts/...`. The
+// middleware strips the prefix and passes the locale on in a request header.
+
+import { i18nConfig } from "@/i18n.config";
+
+export type Locale = (typeof i18nConfig.locales)[number];
+
+export const locales: readonly Locale[] = i18nConfig.locales;
+export const defaultLocale: Locale = i18nConfig.defaultLocale;
+
+// Request header set by the middleware for the rewritten request
+export const LOCALE_HEADER = "x-locale";
+
+// The last locale visited, used to redirect paths without a prefix
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+export function isLocale(value: unknown): value is Locale {
+  return locales.includes(value as Locale);
+}
+
+export function getLocaleLabel(locale: Locale) {
+  return i18nConfig.labels[locale];
+}
+
+// Splits `/ko/posts/hello` into `ko` and `/posts/hello`
+export function splitLocale(pathname: string): {
+  locale: Locale | null;
+  path: string;
+} {
+  const [, first, ...rest] = pathname.split("/");
+
+  if (!isLocale(first)) {
+    return { locale: null, path: pathname };
+  }
+
+  return { locale: first, path: `/${rest.join("/")}` };
+}
+
+// Prefixes a path on this site with a locale, replacing any prefix it already
+// has. External URLs and anchors are returned unchanged.
+export function localizePath(href: string, locale: Locale): string {
+  if (!href.startsWith("/") || href.startsWith("//")) {
+    return href;
+  }
+
+  const [, pathname, suffix] = href.match(/^([^?#]*)(.*)$/)!;
+  const { path } = splitLocale(pathname);
+
+  return `/${locale}${path === "/" ? "" : path}${suffix}`;
+}
+
+// Query parameters selecting a language in the WordPress REST API: `lang` for
+// Polylang and `wpml_language` for WPML. WordPress ignores the one it doesn't know.
+export function getLocaleQuery(locale: Locale) {
+  return { lang: locale, wpml_language: locale };
+}
+
+// Fields added by Polylang (`lang`, `translations`) or WPML (`wpml_*`)
+export interface TranslationFields {
+  lang?: string;
+  translations?: Record<string, number>;
+  // WordPress locales such as `ko_KR`
+  wpml_current_locale?: string;
+  wpml_translations?: {
+    locale: string;
+    id: number;
+    post_title?: string;
+    href?: string;
+  }[];
+}
+
+// `ko_KR` and `ko` both map to the `ko` locale
+function toLocale(code: string | undefined): Locale | null {
+  const language = code?.split(/[_-]/)[0].toLowerCase();
+  return isLocale(language) ? language : null;
+}
+
+// The locale of a post, page or term, when a multilingual plugin is active
+export function getItemLocale(item: TranslationFields): Locale | null {
+  return toLocale(item.lang) ?? toLocale(item.wpml_current_locale);
+}
+
+// Ids of the translations of an item by locale, without the item itself
+export function getTranslationIds(
+  item: TranslationFields & { id: number }
+): Partial<Record<Locale, number>> {
+  const ids: Partial<Record<Locale, number>> = {};
+
+  Object.entries(item.translations ?? {}).forEach(([code, id]) => {
+    const locale = toLocale(code);
+    if (locale && id !== item.id) ids[locale] = id;
+  });
+
+  item.wpml_translations?.forEach((translation) => {
+    const locale = toLocale(translation.locale);
+    if (locale && translation.id !== item.id) ids[locale] = translation.id;
+  });
+
+  return ids;
+}
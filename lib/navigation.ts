@@ -0,0 +1,154 @@
+// Description: Site navigation built from WordPress menus
+// Menus are managed in WordPress and fall back to `menu.config.ts`
+
+import { getMenuItemsByLocation, WordPressNotFoundError } from "./wordpress";
+import { defaultLocale, localizePath, Locale } from "./i18n";
+import { getLocale } from "./request-locale";
+import { MenuItem, NavItem } from "./wordpress.d";
+import { wpConfig } from "@/wp.config";
+
+const wordpressUrl = process.env.WORDPRESS_URL;
+
+function isExternal(href: string) {
+  return /^https?:\/\//.test(href);
+}
+
+// Menu titles are rendered HTML, e.g. `News &amp; Events`
+export function decodeEntities(text: string) {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Resolve a WordPress menu item to the matching Next route.
+// Links to other sites are kept as-is.
+export function getMenuItemHref(item: MenuItem): string {
+  let url: URL;
+  try {
+    url = new URL(item.url, wordpressUrl);
+  } catch {
+    return item.url;
+  }
+
+  // The last path segment of a permalink is the slug. Page permalinks
+  // include their parent slugs, which map to nested `/pages` URLs.
+  const segments = url.pathname.split("/").filter(Boolean);
+  const slug = segments[segments.length - 1] ?? "";
+
+  const isPostType = Object.hasOwn(wpConfig.postTypes, item.object);
+
+  if (item.type === "post_type") {
+    if (item.object === "post") return `/posts/${slug}`;
+    if (item.object === "page") return `/pages/${segments.join("/")}`;
+    if (isPostType) return `/${item.object}/${slug}`;
+  }
+
+  if (item.type === "post_type_archive") {
+    if (item.object === "post") return "/posts";
+    if (isPostType) return `/${item.object}`;
+  }
+
+  if (item.type === "taxonomy") {
+    if (item.object === "category") return `/posts/categories/${slug}`;
+    if (item.object === "post_tag") return `/posts/tags/${slug}`;
+  }
+
+  // Custom links pointing at the WordPress site stay on this site
+  if (
+    item.url.startsWith("/") ||
+    (wordpressUrl && url.origin === new URL(wordpressUrl).origin)
+  ) {
+    return `${url.pathname}${url.search}${url.hash}`;
+  }
+
+  return url.toString();
+}
+
+// Nest menu items under their parent, keeping the menu order
+function buildNavTree(items: MenuItem[]): NavItem[] {
+  const sorted = [...items].sort((a, b) => a.menu_order - b.menu_order);
+  const navItems = new Map<number, NavItem>();
+
+  sorted.forEach((item) => {
+    const href = getMenuItemHref(item);
+    navItems.set(item.id, {
+      id: item.id,
+      title: decodeEntities(item.title.rendered),
+      href,
+      external: isExternal(href),
+      children: [],
+    });
+  });
+
+  const roots: NavItem[] = [];
+  sorted.forEach((item) => {
+    const navItem = navItems.get(item.id)!;
+    const parent = item.parent ? navItems.get(item.parent) : undefined;
+    if (parent) {
+      parent.children.push(navItem);
+    } else {
+      roots.push(navItem);
+    }
+  });
+
+  return roots;
+}
+
+// Convert a static `menu.config.ts` menu to nav items
+export function menuConfigToNavItems(menu: Record<string, string>): NavItem[] {
+  return Object.entries(menu).map(([key, href]) => ({
+    id: key,
+    title: key.charAt(0).toUpperCase() + key.slice(1),
+    href,
+    external: isExternal(href),
+    children: [],
+  }));
+}
+
+// Prefixes the internal links of a menu with the current locale
+function localizeNavItems(items: NavItem[], locale: Locale): NavItem[] {
+  return items.map((item) => ({
+    ...item,
+    href: item.external ? item.href : localizePath(item.href, locale),
+    children: localizeNavItems(item.children, locale),
+  }));
+}
+
+// Polylang registers a copy of each theme location per extra language,
+// e.g. `primary___ko`; WPML filters the menu of the location itself
+function getMenuLocations(location: string, locale: Locale) {
+  return locale === defaultLocale
+    ? [location]
+    : [`${location}___${locale}`, location];
+}
+
+// Get the menu assigned to a WordPress menu location, or the fallback menu
+// when the location is empty or the menus API is unavailable
+export async function getNavigation(
+  location: string,
+  fallback: Record<string, string>
+): Promise<NavItem[]> {
+  const locale = await getLocale();
+
+  for (const menuLocation of getMenuLocations(location, locale)) {
+    try {
+      const items = await getMenuItemsByLocation(menuLocation);
+
+      if (items.length > 0) {
+        return localizeNavItems(buildNavTree(items), locale);
+      }
+    } catch (error) {
+      // A language without its own location uses the main one
+      if (!(error instanceof WordPressNotFoundError)) {
+        console.error(`Failed to fetch the "${menuLocation}" menu:`, error);
+      }
+    }
+  }
+
+  return localizeNavItems(menuConfigToNavItems(fallback), locale);
+}
@@ -0,0 +1,146 @@
+// Description: Templated Open Graph images served by `/api/og`
+// Pages build the image URL from their data with `getOgImageUrl`, and the
+// route reads it back with `parseOgImageParams`. Values are display strings;
+// HTML such as a rendered title is reduced to its text.
+
+import { z } from "zod";
+
+import { decodeHtmlEntities } from "./html";
+import { defaultLocale, isLocale, Locale } from "./i18n";
+import { siteConfig } from "@/site.config";
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 } as const;
+
+export const ogTemplates = [
+  "default",
+  "post",
+  "course",
+  "product",
+  "author",
+] as const;
+
+export type OgTemplate = (typeof ogTemplates)[number];
+
+export interface OgImageData {
+  template?: OgTemplate;
+  // Picks the font, e.g. Noto Sans KR for `ko`
+  locale?: Locale;
+  title: string;
+  description?: string;
+  // Featured image, or the product image
+  image?: string;
+  // Category on posts and products, or the post type label on entries
+  label?: string;
+  // Post author, or the author page itself
+  author?: string;
+  avatar?: string;
+  date?: string;
+  // Formatted, e.g. `$49.00` or `Free`
+  price?: string;
+  level?: string;
+  // Average out of 5 and the number of reviews
+  rating?: string;
+  reviews?: string;
+  // Post count on author pages
+  posts?: string;
+}
+
+function getHostname(url: string | undefined) {
+  try {
+    return url ? new URL(url).hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+// Images are fetched by the route, so only hosts serving site content are
+// allowed: WordPress (media and WooCommerce), this site and Gravatar
+function isAllowedImageUrl(value: string) {
+  const hostname = getHostname(value);
+  const hosts = [process.env.WORDPRESS_URL, siteConfig.site_domain].map(
+    getHostname
+  );
+
+  return (
+    value.startsWith("https://") &&
+    !!hostname &&
+    (hosts.includes(hostname) ||
+      hostname === "gravatar.com" ||
+      hostname.endsWith(".gravatar.com"))
+  );
+}
+
+const text = (max: number) =>
+  z
+    .string()
+    .trim()
+    .min(1)
+    .transform((value) =>
+      value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value
+    )
+    .optional()
+    .catch(undefined);
+
+const imageUrl = z
+  .string()
+  .url()
+  .refine(isAllowedImageUrl)
+  .optional()
+  .catch(undefined);
+
+const ogImageParams = z.object({
+  template: z.enum(ogTemplates).catch("default"),
+  locale: z.custom<Locale>(isLocale).catch(defaultLocale),
+  title: text(120).transform((value) => value ?? siteConfig.site_name),
+  description: text(200),
+  image: imageUrl,
+  label: text(40),
+  author: text(60),
+  avatar: imageUrl,
+  date: text(40),
+  price: text(24),
+  level: text(32),
+  rating: text(8),
+  reviews: text(12),
+  posts: text(12),
+});
+
+export type OgImageParams = z.infer<typeof ogImageParams>;
+
+// Invalid or disallowed values are dropped, so the route always has an image
+export function parseOgImageParams(
+  searchParams: URLSearchParams
+): OgImageParams {
+  return ogImageParams.parse(Object.fromEntries(searchParams));
+}
+
+export function getOgImageUrl({
+  template = "default",
+  locale = defaultLocale,
+  ...data
+}: OgImageData): string {
+  const url = new URL(`${siteConfig.site_domain}/api/og`);
+  url.searchParams.set("template", template);
+  url.searchParams.set("locale", locale);
+
+  Object.entries(data).forEach(([key, value]) => {
+    const plain = value && decodeHtmlEntities(value.replace(/<[^>]*>/g, ""));
+    if (plain?.trim()) url.searchParams.set(key, plain.trim());
+  });
+
+  return url.toString();
+}
+
+// WooCommerce prices are strings in the store currency, e.g. `49` or `''`
+export function formatPrice(price: string | undefined) {
+  const amount = parseFloat(price ?? "");
+
+  if (!amount) {
+    return "Free";
+  }
+
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: siteConfig.currency,
+  }).format(amount);
+}
@@ -0,0 +1,80 @@
+// Description: Page hierarchy helpers
+// Pages are nested through `parent` and ordered by `menu_order`
+
+import { PageNode, PageSummary } from "./wordpress.d";
+
+// Parents of a page, from the root down. Stops at a missing or repeated
+// parent, e.g. a private parent page that is not part of the hierarchy.
+export function getPageAncestors(
+  page: Pick<PageSummary, "id" | "parent">,
+  pages: PageSummary[]
+): PageSummary[] {
+  const pagesById = new Map(pages.map((item) => [item.id, item]));
+  const ancestors: PageSummary[] = [];
+  const seen = new Set([page.id]);
+  let parent = pagesById.get(page.parent);
+
+  while (parent && !seen.has(parent.id)) {
+    ancestors.unshift(parent);
+    seen.add(parent.id);
+    parent = pagesById.get(parent.parent);
+  }
+
+  return ancestors;
+}
+
+export function getPageHref(
+  page: Pick<PageSummary, "id" | "slug" | "parent">,
+  pages: PageSummary[]
+): string {
+  const slugs = [...getPageAncestors(page, pages), page].map(
+    (item) => item.slug
+  );
+  return `/pages/${slugs.join("/")}`;
+}
+
+function comparePages(a: PageSummary, b: PageSummary) {
+  return (
+    a.menu_order - b.menu_order ||
+    a.title.rendered.localeCompare(b.title.rendered)
+  );
+}
+
+// Nest pages under their parent, ordered by `menu_order` then title.
+// Pages whose parent is not in the list are treated as top-level pages.
+export function buildPageTree(pages: PageSummary[]): PageNode[] {
+  const nodes = new Map<number, PageNode>();
+
+  [...pages].sort(comparePages).forEach((page) => {
+    nodes.set(page.id, {
+      ...page,
+      href: getPageHref(page, pages),
+      children: [],
+    });
+  });
+
+  const roots: PageNode[] = [];
+  nodes.forEach((node) => {
+    const parent = nodes.get(node.parent);
+    if (parent && parent.id !== node.id) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+// Find a page in a tree built by `buildPageTree`
+export function findPageNode(
+  nodes: PageNode[],
+  id: number
+): PageNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const match = findPageNode(node.children, id);
+    if (match) return match;
+  }
+  return undefined;
+}
@@ -0,0 +1,94 @@
+// Description: Date archive helpers
+// A period is a year or a month. Dates are compared in the WordPress site's
+// timezone, like the `date` field of posts and the `after`/`before` filters.
+
+export interface ArchivePeriod {
+  year: number;
+  // 1-12, or undefined for the whole year
+  month?: number;
+}
+
+export interface ArchiveMonth {
+  year: number;
+  month: number;
+  count: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Parses route or filter segments such as ["2024"] or ["2024", "05"]
+export function parsePeriod(
+  year: string | undefined,
+  month?: string
+): ArchivePeriod | null {
+  if (!year || !/^\d{4}$/.test(year)) return null;
+  if (month === undefined) return { year: Number(year) };
+  if (!/^\d{1,2}$/.test(month)) return null;
+
+  const value = Number(month);
+  return value >= 1 && value <= 12
+    ? { year: Number(year), month: value }
+    : null;
+}
+
+// `2024` or `2024-05`, used as the `period` filter value
+export function getPeriodKey({ year, month }: ArchivePeriod) {
+  return month ? `${year}-${pad(month)}` : String(year);
+}
+
+export function getPeriodPath({ year, month }: ArchivePeriod) {
+  return month
+    ? `/posts/archive/${year}/${pad(month)}`
+    : `/posts/archive/${year}`;
+}
+
+export function formatPeriod({ year, month }: ArchivePeriod) {
+  return month
+    ? new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      })
+    : String(year);
+}
+
+// WordPress treats both bounds as exclusive, so `after` is the last second
+// before the period starts
+export function getPeriodBounds({ year, month }: ArchivePeriod): {
+  after: string;
+  before: string;
+} {
+  const start = Date.UTC(year, month ? month - 1 : 0, 1);
+  const end = month ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1);
+  const toLocalDate = (time: number) =>
+    new Date(time).toISOString().slice(0, 19);
+
+  return { after: toLocalDate(start - 1000), before: toLocalDate(end) };
+}
+
+// Cache tags of the periods a post date falls in, e.g. `posts-2024` and
+// `posts-2024-05`. Archive pages are tagged with their own period only.
+export function getPeriodTags(date: string): string[] {
+  const [year, month] = date.split("-");
+  return [`posts-${year}`, `posts-${year}-${month}`];
+}
+
+export function getPeriodTag(period: ArchivePeriod) {
+  return `posts-${getPeriodKey(period)}`;
+}
+
+// Post counts per month from post dates, newest first
+export function groupArchiveMonths(dates: string[]): ArchiveMonth[] {
+  const counts = new Map<string, number>();
+
+  dates.forEach((date) => {
+    const key = date.slice(0, 7);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return Array.from(counts, ([key, count]) => ({
+    year: Number(key.slice(0, 4)),
+    month: Number(key.slice(5, 7)),
+    count,
+  })).sort((a, b) => b.year - a.year || b.month - a.month);
+}
@@ -0,0 +1,263 @@
+// Description: Related posts, scored by shared terms, author and recency
+// Scores are accumulated within each tag and category group, so only posts
+// that share a term are ever compared. The result is kept until posts change.
+
+import { getCollectionSlice, getPostsByIds, withRelations } from "./wordpress";
+import { decodeEntities } from "./navigation";
+import { Locale } from "./i18n";
+import { getLocale } from "./request-locale";
+import { Post, PostWithRelations } from "./wordpress.d";
+
+export const relatedPostWeights = {
+  // Per shared tag
+  tag: 3,
+  // Per shared category
+  category: 2,
+  sameAuthor: 1,
+  // For a post published today, halving every RECENCY_HALF_LIFE days
+  recency: 2,
+};
+
+const RECENCY_HALF_LIFE = 180 * 24 * 60 * 60 * 1000;
+
+// Latest posts considered as related posts
+const RELATED_POOL_SIZE = 500;
+
+// Related posts kept per post
+const MAX_RELATED = 12;
+
+export type RelatedPostCandidate = Pick<
+  Post,
+  "id" | "date_gmt" | "author" | "categories" | "tags"
+>;
+
+export interface RelatedPostScore {
+  id: number;
+  score: number;
+  // Terms shared with the post the score is relative to
+  sharedTags: number[];
+  sharedCategories: number[];
+}
+
+function groupByTerm(
+  posts: RelatedPostCandidate[],
+  getTerms: (post: RelatedPostCandidate) => number[]
+): Map<number, number[]> {
+  const groups = new Map<number, number[]>();
+
+  posts.forEach((post) => {
+    getTerms(post).forEach((term) => {
+      groups.set(term, [...(groups.get(term) ?? []), post.id]);
+    });
+  });
+
+  return groups;
+}
+
+// Pairs of posts sharing terms, with the terms they share
+function collectSharedTerms(
+  posts: RelatedPostCandidate[]
+): Map<number, Map<number, RelatedPostScore>> {
+  const shared = new Map<number, Map<number, RelatedPostScore>>();
+  const getPair = (id: number, otherId: number) => {
+    const pairs = shared.get(id) ?? new Map<number, RelatedPostScore>();
+    shared.set(id, pairs);
+
+    const pair = pairs.get(otherId) ?? {
+      id: otherId,
+      score: 0,
+      sharedTags: [],
+      sharedCategories: [],
+    };
+    pairs.set(otherId, pair);
+    return pair;
+  };
+
+  const groups = [
+    { key: "sharedTags", groups: groupByTerm(posts, (post) => post.tags) },
+    {
+      key: "sharedCategories",
+      groups: groupByTerm(posts, (post) => post.categories),
+    },
+  ] as const;
+
+  groups.forEach(({ key, groups }) => {
+    groups.forEach((ids, term) => {
+      ids.forEach((id) => {
+        ids.forEach((otherId) => {
+          if (id !== otherId) getPair(id, otherId)[key].push(term);
+        });
+      });
+    });
+  });
+
+  return shared;
+}
+
+// Top related posts of every post, best first
+export function scoreRelatedPosts(
+  posts: RelatedPostCandidate[],
+  now = Date.now()
+): Map<number, RelatedPostScore[]> {
+  const postsById = new Map(posts.map((post) => [post.id, post]));
+  const shared = collectSharedTerms(posts);
+  const related = new Map<number, RelatedPostScore[]>();
+
+  shared.forEach((pairs, id) => {
+    const post = postsById.get(id)!;
+    const scores = Array.from(pairs.values()).map((pair) => {
+      const other = postsById.get(pair.id)!;
+      const age = Math.max(0, now - new Date(other.date_gmt + "Z").getTime());
+
+      return {
+        ...pair,
+        score:
+          pair.sharedTags.length * relatedPostWeights.tag +
+          pair.sharedCategories.length * relatedPostWeights.category +
+          (other.author === post.author ? relatedPostWeights.sameAuthor : 0) +
+          relatedPostWeights.recency * 0.5 ** (age / RECENCY_HALF_LIFE),
+      };
+    });
+
+    related.set(
+      id,
+      scores
+        .sort((a, b) => b.score - a.score || b.id - a.id)
+        .slice(0, MAX_RELATED)
+    );
+  });
+
+  return related;
+}
+
+// Scores of the current pool, recomputed when a post or its terms change.
+// Multilingual plugins give each locale its own pool.
+const cachedScores = new Map<
+  Locale,
+  { key: string; scores: Map<number, RelatedPostScore[]> }
+>();
+
+async function getRelatedPostScores(): Promise<
+  Map<number, RelatedPostScore[]>
+> {
+  const [locale, pool] = await Promise.all([
+    getLocale(),
+    getCollectionSlice<RelatedPostCandidate>(
+      "posts",
+      { _fields: "id,date_gmt,author,categories,tags" },
+      { offset: 0, limit: RELATED_POOL_SIZE },
+      "posts"
+    ),
+  ]);
+  const key = pool
+    .map((post) => `${post.id}:${post.author}:${post.tags}:${post.categories}`)
+    .join("|");
+
+  const cached = cachedScores.get(locale);
+  if (cached?.key === key) {
+    return cached.scores;
+  }
+
+  const scores = scoreRelatedPosts(pool);
+  cachedScores.set(locale, { key, scores });
+  return scores;
+}
+
+export async function getRelatedPosts(
+  postId: number,
+  { limit = 3 }: { limit?: number } = {}
+): Promise<PostWithRelations[]> {
+  const scores = await getRelatedPostScores();
+  const ids = (scores.get(postId) ?? []).slice(0, limit).map(({ id }) => id);
+
+  return withRelations(await getPostsByIds(ids));
+}
+
+export interface PostGraphNode {
+  id: number;
+  slug: string;
+  title: string;
+  date: string;
+}
+
+export interface PostGraphTerm {
+  // `tag-12` or `category-3`
+  key: string;
+  name: string;
+  href: string;
+  postIds: number[];
+}
+
+export interface PostGraphEdge {
+  source: number;
+  target: number;
+  score: number;
+  // Keys of the shared terms
+  terms: string[];
+}
+
+export interface PostGraph {
+  nodes: PostGraphNode[];
+  terms: PostGraphTerm[];
+  edges: PostGraphEdge[];
+}
+
+// Posts and the terms connecting them, for the post explorer
+export function getPostGraph(posts: PostWithRelations[]): PostGraph {
+  const terms = new Map<string, PostGraphTerm>();
+
+  posts.forEach((post) => {
+    const postTerms = [
+      ...post.relations.categories.map((term) => ({
+        key: `category-${term.id}`,
+        name: term.name,
+        href: `/posts/categories/${term.slug}`,
+      })),
+      ...post.relations.tags.map((term) => ({
+        key: `tag-${term.id}`,
+        name: term.name,
+        href: `/posts/tags/${term.slug}`,
+      })),
+    ];
+
+    postTerms.forEach((term) => {
+      const existing = terms.get(term.key) ?? { ...term, postIds: [] };
+      existing.postIds.push(post.id);
+      terms.set(term.key, existing);
+    });
+  });
+
+  // Pairs are scored from both sides; keep one edge per pair
+  const edges = new Map<string, PostGraphEdge>();
+  scoreRelatedPosts(posts).forEach((scores, id) => {
+    scores.forEach((pair) => {
+      const [source, target] = id < pair.id ? [id, pair.id] : [pair.id, id];
+
+      if (!edges.has(`${source}-${target}`)) {
+        edges.set(`${source}-${target}`, {
+          source,
+          target,
+          score: pair.score,
+          terms: [
+            ...pair.sharedCategories.map((term) => `category-${term}`),
+            ...pair.sharedTags.map((term) => `tag-${term}`),
+          ],
+        });
+      }
+    });
+  });
+
+  return {
+    nodes: posts.map((post) => ({
+      id: post.id,
+      slug: post.slug,
+      title: decodeEntities(post.title.rendered),
+      date: post.date,
+    })),
+    // Terms shared by at least two posts, most used first
+    terms: Array.from(terms.values())
+      .filter((term) => term.postIds.length > 1)
+      .sort((a, b) => b.postIds.length - a.postIds.length),
+    edges: Array.from(edges.values()),
+  };
+}
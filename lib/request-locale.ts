@@ -0,0 +1,13 @@
+// Description: Locale of the current request, for server components
+// Kept apart from `lib/i18n.ts`, which client components and the middleware import
+
+import { headers } from "next/headers";
+
+import { defaultLocale, isLocale, Locale, LOCALE_HEADER } from "./i18n";
+
+// The locale from the URL prefix, or the default locale for routes without
+// one such as feeds and sitemaps
+export async function getLocale(): Promise<Locale> {
+  const locale = (await headers()).get(LOCALE_HEADER);
+  return isLocale(locale) ? locale : defaultLocale;
+}
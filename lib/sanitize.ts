@@ -0,0 +1,483 @@
+// Description: Allowlist HTML sanitizer for markup from WordPress, Tutor LMS
+// and WooCommerce. Everything rendered with `dangerouslySetInnerHTML` goes
+// through `sanitizeHtml`, or `sanitizeInlineHtml` for titles.
+
+import { EditorBlock } from "./wordpress.d";
+
+// Hosts allowed as `<iframe src>`, e.g. from embed blocks
+export const embedHosts = [
+  "www.youtube.com",
+  "www.youtube-nocookie.com",
+  "player.vimeo.com",
+  "open.spotify.com",
+  "w.soundcloud.com",
+  "embed.music.apple.com",
+  "www.google.com",
+  "codepen.io",
+  "www.loom.com",
+];
+
+// Elements WordPress content uses, from classic and block editor output
+const blockTags = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "caption",
+  "col",
+  "colgroup",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+  "audio",
+  "iframe",
+  "img",
+  "picture",
+  "source",
+  "track",
+  "video",
+];
+
+// Elements allowed in titles and other single-line markup
+const inlineTags = [
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "br",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "i",
+  "ins",
+  "kbd",
+  "mark",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+  "wbr",
+];
+
+// Dropped together with their content
+const removedWithContent = new Set([
+  "script",
+  "style",
+  "template",
+  "noscript",
+  "object",
+  "embed",
+  "applet",
+  "frame",
+  "frameset",
+  "svg",
+  "math",
+  "textarea",
+  "select",
+  "title",
+  "head",
+]);
+
+const voidTags = new Set(["br", "col", "hr", "img", "source", "track", "wbr"]);
+
+const globalAttributes = new Set([
+  "class",
+  "id",
+  "title",
+  "lang",
+  "dir",
+  "role",
+  "style",
+]);
+
+const tagAttributes: Record<string, string[]> = {
+  a: ["href", "target", "rel", "name", "hreflang"],
+  img: [
+    "src",
+    "srcset",
+    "sizes",
+    "alt",
+    "width",
+    "height",
+    "loading",
+    "decoding",
+  ],
+  iframe: [
+    "src",
+    "width",
+    "height",
+    "allow",
+    "allowfullscreen",
+    "frameborder",
+    "loading",
+    "referrerpolicy",
+  ],
+  video: [
+    "src",
+    "poster",
+    "controls",
+    "autoplay",
+    "muted",
+    "loop",
+    "playsinline",
+    "preload",
+    "width",
+    "height",
+  ],
+  audio: ["src", "controls", "autoplay", "muted", "loop", "preload"],
+  source: ["src", "srcset", "sizes", "type", "media"],
+  track: ["src", "kind", "srclang", "label", "default"],
+  td: ["colspan", "rowspan", "headers"],
+  th: ["colspan", "rowspan", "headers", "scope"],
+  col: ["span"],
+  colgroup: ["span"],
+  ol: ["start", "reversed", "type"],
+  li: ["value"],
+  blockquote: ["cite"],
+  q: ["cite"],
+  del: ["cite", "datetime"],
+  ins: ["cite", "datetime"],
+  time: ["datetime"],
+  data: ["value"],
+  details: ["open"],
+  abbr: ["title"],
+};
+
+const urlAttributes = new Set(["href", "src", "cite", "poster"]);
+
+// Tags left open are closed and unmatched end tags dropped, so the markup
+// can't close elements of the page around it
+interface SanitizeOptions {
+  allowedTags: Set<string>;
+}
+
+const contentOptions: SanitizeOptions = {
+  allowedTags: new Set([...blockTags, ...inlineTags]),
+};
+
+const inlineOptions: SanitizeOptions = {
+  allowedTags: new Set(inlineTags),
+};
+
+// Matches one start or end tag at the current position
+const tagPattern =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/y;
+
+const attributePattern =
+  /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// Named references that can spell out schemes, quotes, parentheses or CSS
+// escapes. Others can't hide anything the checks look for.
+const namedReferences: Record<string, string> = {
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  lpar: "(",
+  rpar: ")",
+  bsol: "\\",
+  sol: "/",
+  colon: ":",
+  semi: ";",
+  comma: ",",
+  period: ".",
+  num: "#",
+  excl: "!",
+  nbsp: " ",
+  tab: "",
+  newline: "",
+};
+
+function decodeAttribute(value: string) {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&#(\d+);?/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(
+      /&([a-z]+);?/gi,
+      (match, name: string) => namedReferences[name.toLowerCase()] ?? match
+    )
+    .replace(/&amp;/gi, "&");
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&(?!#?[a-z0-9]+;)/gi, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+// Relative URLs, anchors and http(s), mailto and tel links
+function isSafeUrl(value: string, tag: string) {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const url = decodeAttribute(value).replace(/[\u0000- ]/g, "");
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+
+  if (!scheme) return true;
+  if (["http", "https", "mailto", "tel"].includes(scheme)) return true;
+
+  // Inline images, e.g. small placeholders
+  return tag === "img" && /^data:image\/(png|jpe?g|gif|webp|avif);/i.test(url);
+}
+
+function isEmbedHost(src: string) {
+  try {
+    const url = new URL(decodeAttribute(src), "https://invalid.local");
+    return url.protocol === "https:" && embedHosts.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+function isSafeSrcset(value: string, tag: string) {
+  return value
+    .split(",")
+    .every((candidate) => isSafeUrl(candidate.trim(), tag));
+}
+
+// Rejects styles that can run script in old browsers, or hide it behind CSS
+// escapes. `url()` is kept for http(s) images, e.g. cover block backgrounds.
+function isSafeStyle(value: string) {
+  const style = decodeAttribute(value);
+
+  if (/\\|expression\s*\(|behavior\s*:|-moz-binding|@import/i.test(style)) {
+    return false;
+  }
+
+  return Array.from(style.matchAll(/url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi)).every(
+    ([, , url]) => isSafeUrl(url, "style")
+  );
+}
+
+function sanitizeAttributes(tag: string, source: string): string | null {
+  const allowed = tagAttributes[tag] ?? [];
+  const attributes: [string, string | null][] = [];
+
+  for (const match of source.matchAll(attributePattern)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? null;
+
+    // Event handlers such as `onclick` are never in either list
+    const isAllowed =
+      globalAttributes.has(name) ||
+      allowed.includes(name) ||
+      name.startsWith("aria-") ||
+      name.startsWith("data-");
+
+    if (!isAllowed) continue;
+    if (urlAttributes.has(name) && value && !isSafeUrl(value, tag)) continue;
+    if (name === "srcset" && value && !isSafeSrcset(value, tag)) continue;
+    if (name === "style" && value && !isSafeStyle(value)) continue;
+
+    attributes.push([name, value]);
+  }
+
+  if (tag === "iframe") {
+    const src = attributes.find(([name]) => name === "src")?.[1];
+    if (!src || !isEmbedHost(src)) return null;
+  }
+
+  // Links opening a new tab can't reach back into this window
+  if (
+    tag === "a" &&
+    attributes.some(([name, value]) => name === "target" && value === "_blank")
+  ) {
+    const rel = attributes.find(([name]) => name === "rel");
+    const values = new Set((rel?.[1] ?? "").split(/\s+/).filter(Boolean));
+    values.add("noopener");
+    values.add("noreferrer");
+    if (rel) rel[1] = Array.from(values).join(" ");
+    else attributes.push(["rel", Array.from(values).join(" ")]);
+  }
+
+  return attributes
+    .map(([name, value]) =>
+      value === null ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`
+    )
+    .join("");
+}
+
+// `open` holds the elements left open, so block chunks can share it. Pass
+// `closeOpen: false` to leave them open for a later chunk.
+function sanitize(
+  html: string,
+  options: SanitizeOptions,
+  open: string[] = [],
+  closeOpen = true
+): string {
+  let output = "";
+  let index = 0;
+
+  while (index < html.length) {
+    const next = html.indexOf("<", index);
+
+    if (next === -1) {
+      output += html.slice(index);
+      break;
+    }
+
+    output += html.slice(index, next);
+
+    // Comments, including conditional comments, are dropped
+    if (html.startsWith("<!--", next)) {
+      const end = html.indexOf("-->", next + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    tagPattern.lastIndex = next;
+    const match = tagPattern.exec(html);
+
+    if (!match) {
+      // A stray `<` that doesn't start a tag, e.g. `a < b`
+      output += "&lt;";
+      index = next + 1;
+      continue;
+    }
+
+    index = tagPattern.lastIndex;
+    const [, closing, name, attributes] = match;
+    const tag = name.toLowerCase();
+
+    if (removedWithContent.has(tag)) {
+      if (!closing) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, index);
+        index =
+          end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      }
+      continue;
+    }
+
+    if (!options.allowedTags.has(tag)) {
+      continue;
+    }
+
+    if (closing) {
+      if (voidTags.has(tag)) continue;
+
+      if (open.includes(tag)) {
+        // Closes elements left open inside this one, e.g. `<b>` in `<p><b></p>`
+        while (open.length) {
+          const last = open.pop()!;
+          output += `</${last}>`;
+          if (last === tag) break;
+        }
+      }
+      continue;
+    }
+
+    const sanitized = sanitizeAttributes(tag, attributes);
+
+    if (sanitized === null) {
+      // An iframe from a host that isn't allowed, with its fallback content
+      const end = html.toLowerCase().indexOf(`</${tag}`, index);
+      index =
+        end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      continue;
+    }
+
+    output += `<${tag}${sanitized}>`;
+    if (!voidTags.has(tag)) open.push(tag);
+  }
+
+  return closeOpen ? output + closeElements(open) : output;
+}
+
+function closeElements(open: string[]) {
+  return open
+    .splice(0)
+    .reverse()
+    .map((tag) => `</${tag}>`)
+    .join("");
+}
+
+// Block markup is split into chunks around inner blocks, e.g. an opening
+// `<div>` in the first chunk and its `</div>` in the last. The chunks are
+// balanced together, so end tags can only close elements of the same block.
+function sanitizeChunks(chunks: (string | null)[]): (string | null)[] {
+  const open: string[] = [];
+  const sanitized = chunks.map((chunk) =>
+    chunk === null ? null : sanitize(chunk, contentOptions, open, false)
+  );
+
+  for (let index = sanitized.length - 1; index >= 0; index--) {
+    if (sanitized[index] !== null) {
+      sanitized[index] += closeElements(open);
+      break;
+    }
+  }
+
+  return sanitized;
+}
+
+export function sanitizeHtml(html: string | null | undefined): string {
+  return html ? sanitize(html, contentOptions) : "";
+}
+
+// Titles, excerpts in cards and other markup without block elements
+export function sanitizeInlineHtml(html: string | null | undefined): string {
+  return html ? sanitize(html, inlineOptions) : "";
+}
+
+// Sanitizes the HTML of parsed blocks before `BlockRenderer` renders it,
+// along with the attributes that end up in links or markup
+export function sanitizeBlocks(blocks: EditorBlock[]): EditorBlock[] {
+  return blocks.map((block) => {
+    const { url, text } = block.attributes;
+    const attributes = { ...block.attributes };
+
+    if (typeof url === "string" && !isSafeUrl(url, "a")) {
+      delete attributes.url;
+    }
+    if (typeof text === "string") {
+      attributes.text = sanitizeInlineHtml(text);
+    }
+
+    return {
+      ...block,
+      attributes,
+      innerHTML: sanitizeHtml(block.innerHTML),
+      innerContent: sanitizeChunks(block.innerContent),
+      innerBlocks: sanitizeBlocks(block.innerBlocks),
+    };
+  });
+}
@@ -0,0 +1,211 @@
+// Description: Site-wide search across WordPress, Tutor LMS and WooCommerce
+// Each source is searched in parallel; a failing source is logged and skipped
+// so the remaining results are still shown
+
+import { searchContent } from "./wordpress";
+import { getProducts, searchProducts } from "./woocommerce";
+import { decodeEntities } from "./navigation";
+import { defaultLocale, Locale, localizePath } from "./i18n";
+import { wpConfig } from "@/wp.config";
+
+// Custom post types from `wp.config.ts` are listed by their post type name,
+// between pages and courses
+export const searchResultTypes: readonly string[] = [
+  "post",
+  "page",
+  ...Object.keys(wpConfig.postTypes),
+  "course",
+  "product",
+];
+
+// One of `searchResultTypes`
+export type SearchResultType = string;
+
+export interface UnifiedSearchResult {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  url: string;
+  excerpt?: string;
+  image?: string;
+}
+
+export interface UnifiedSearchResponse {
+  query: string;
+  results: UnifiedSearchResult[];
+  counts: Record<SearchResultType, number>;
+}
+
+export const searchResultLabels: Record<SearchResultType, string> = {
+  post: "Posts",
+  page: "Pages",
+  ...Object.fromEntries(
+    Object.entries(wpConfig.postTypes).map(([name, config]) => [
+      name,
+      config.label,
+    ])
+  ),
+  course: "Courses",
+  product: "Products",
+};
+
+export function isSearchResultType(type: unknown): type is SearchResultType {
+  return typeof type === "string" && searchResultTypes.includes(type);
+}
+
+function toPlainText(html: string) {
+  return decodeEntities(html).replace(/\s+/g, " ").trim();
+}
+
+function getPathSegments(url: string) {
+  try {
+    return new URL(url).pathname.split("/").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+async function searchWordPress(
+  query: string,
+  limit: number
+): Promise<UnifiedSearchResult[]> {
+  const results = await searchContent(query, {
+    perPage: limit,
+    subtype: ["post", "page", ...Object.keys(wpConfig.postTypes)],
+  });
+
+  // Password protected posts and pages are not listed
+  const listed = results.filter(
+    (result) => !result._embedded?.self?.[0]?.excerpt?.protected
+  );
+
+  return listed.map((result) => {
+    const embedded = result._embedded?.self?.[0];
+    // The last path segment of a permalink is the slug. Page permalinks
+    // include their parent slugs, which map to nested `/pages` URLs.
+    const segments = getPathSegments(result.url);
+    const slug = embedded?.slug ?? segments[segments.length - 1] ?? "";
+    const type = result.subtype;
+    // Custom post types are served at `/[type]`, keyed by post type name
+    const url =
+      type === "post"
+        ? `/posts/${slug}`
+        : type === "page"
+          ? `/pages/${segments.join("/") || slug}`
+          : `/${type}/${slug}`;
+
+    return {
+      id: `${type}-${result.id}`,
+      type,
+      title: toPlainText(result.title),
+      url,
+      excerpt: embedded?.excerpt && toPlainText(embedded.excerpt.rendered),
+    };
+  });
+}
+
+async function searchCourses(
+  query: string,
+  limit: number
+): Promise<UnifiedSearchResult[]> {
+  // Loaded lazily: the Tutor LMS client throws at import when its API
+  // credentials are not configured
+  const { searchTutorCourses } = await import("./tutor-lms");
+  const courses = await searchTutorCourses(query, { per_page: limit });
+
+  // Course pages are WooCommerce products, so each course links to the product
+  // that sells it. Courses without one have no page and are left out.
+  const productIds = courses.flatMap(
+    (course) => course.meta?._tutor_course_product_id || []
+  );
+  const products = productIds.length
+    ? await getProducts({
+        include: productIds,
+        per_page: productIds.length,
+        status: "publish",
+      })
+    : [];
+  const slugs = new Map(products.map((product) => [product.id, product.slug]));
+
+  return courses.flatMap((course) => {
+    const slug = slugs.get(course.meta?._tutor_course_product_id ?? 0);
+
+    return slug
+      ? [
+          {
+            id: `course-${course.id}`,
+            type: "course",
+            title: toPlainText(course.title.rendered),
+            url: `/courses/${slug}`,
+            excerpt: toPlainText(course.excerpt.rendered),
+          },
+        ]
+      : [];
+  });
+}
+
+async function searchShop(
+  query: string,
+  limit: number
+): Promise<UnifiedSearchResult[]> {
+  const products = await searchProducts(query, { per_page: limit });
+
+  // Course pages are backed by WooCommerce products, looked up by slug
+  return products.map((product) => ({
+    id: `product-${product.id}`,
+    type: "product",
+    title: toPlainText(product.name),
+    url: `/courses/${product.slug}`,
+    excerpt: toPlainText(product.short_description),
+    image: product.images[0]?.src,
+  }));
+}
+
+// Result URLs are prefixed with `locale`
+export async function searchSite(
+  query: string,
+  {
+    limit = 20,
+    locale = defaultLocale,
+  }: { limit?: number; locale?: Locale } = {}
+): Promise<UnifiedSearchResponse> {
+  const trimmed = query.trim();
+  const counts: Record<SearchResultType, number> = Object.fromEntries(
+    searchResultTypes.map((type) => [type, 0])
+  );
+
+  if (!trimmed) {
+    return { query: trimmed, results: [], counts };
+  }
+
+  const sources = [
+    { name: "WordPress", search: searchWordPress },
+    { name: "Tutor LMS", search: searchCourses },
+    { name: "WooCommerce", search: searchShop },
+  ];
+
+  const settled = await Promise.allSettled(
+    sources.map((source) => source.search(trimmed, limit))
+  );
+
+  const results: UnifiedSearchResult[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      results.push(
+        ...outcome.value.map((result) => ({
+          ...result,
+          url: localizePath(result.url, locale),
+        }))
+      );
+    } else {
+      console.error(
+        `Search failed for ${sources[index].name}:`,
+        outcome.reason
+      );
+    }
+  });
+
+  results.forEach((result) => counts[result.type]++);
+
+  return { query: trimmed, results, counts };
+}
@@ -0,0 +1,40 @@
+// Description: HMAC signing for cookie values
+// Used for server-side state that visitors must not be able to forge
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+function getSecret(): string {
+  const secret = process.env.COOKIE_SECRET;
+
+  if (!secret) {
+    throw new Error("COOKIE_SECRET environment variable is not defined");
+  }
+
+  return secret;
+}
+
+function getSignature(value: string): string {
+  return createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
+
+// Returns `value.signature`
+export function signValue(value: string): string {
+  return `${value}.${getSignature(value)}`;
+}
+
+// Returns the original value, or null when the signature does not match
+export function verifySignedValue(signed: string | undefined): string | null {
+  if (!signed) return null;
+
+  const index = signed.lastIndexOf(".");
+  if (index === -1) return null;
+
+  const value = signed.slice(0, index);
+  const expected = Buffer.from(getSignature(value));
+  const received = Buffer.from(signed.slice(index + 1));
+
+  return expected.length === received.length &&
+    timingSafeEqual(expected, received)
+    ? value
+    : null;
+}
@@ -0,0 +1,466 @@
+// Description: Sources for the sitemap index and its child sitemaps
+// Each locale and content type has its own sitemap, split into chunks of
+// SITEMAP_LIMIT URLs. A chunk id such as `en-posts-0` is served at
+// `/sitemap/en-posts-0.xml`. URLs list their translations as alternates.
+
+import type { MetadataRoute } from "next";
+
+import {
+  getCollectionSlice,
+  getCollectionTotal,
+  getPageHierarchy,
+  getTranslatedItems,
+} from "./wordpress";
+import { getPageHref } from "./page-tree";
+import { getProductsPage } from "./woocommerce";
+import {
+  defaultLocale,
+  getLocaleQuery,
+  getTranslationIds,
+  isLocale,
+  locales,
+  localizePath,
+  Locale,
+  TranslationFields,
+} from "./i18n";
+import { EmbeddedError, EmbeddedMedia } from "./wordpress.d";
+import { TutorCourse } from "./tutor-lms-types";
+import { wpConfig } from "@/wp.config";
+import { siteConfig } from "@/site.config";
+
+// Most URLs a single sitemap may list
+export const SITEMAP_LIMIT = 50000;
+
+interface SitemapSource {
+  count(): Promise<number>;
+  // URLs `offset` to `offset + SITEMAP_LIMIT`
+  entries(offset: number): Promise<MetadataRoute.Sitemap>;
+}
+
+// Fields read from WordPress collections
+interface SitemapItem extends TranslationFields {
+  id: number;
+  slug: string;
+  parent?: number;
+  modified_gmt?: string;
+  _embedded?: {
+    "wp:featuredmedia"?: (Pick<EmbeddedMedia, "source_url"> | EmbeddedError)[];
+  };
+}
+
+type Alternates = MetadataRoute.Sitemap[number]["alternates"];
+
+function toUrl(path: string, locale: Locale) {
+  return `${siteConfig.site_domain}${localizePath(path, locale)}`;
+}
+
+// `hreflang` alternates from unprefixed paths by locale. The default locale
+// doubles as `x-default`.
+function toAlternates(paths: Partial<Record<Locale, string>>): Alternates {
+  const languages: Record<string, string> = {};
+
+  locales.forEach((locale) => {
+    const path = paths[locale];
+    if (path !== undefined) languages[locale] = toUrl(path, locale);
+  });
+
+  if (languages[defaultLocale]) {
+    languages["x-default"] = languages[defaultLocale];
+  }
+
+  return { languages };
+}
+
+// Alternates of content that is the same in every language, e.g. courses
+function sharedAlternates(path: string): Alternates {
+  return toAlternates(Object.fromEntries(locales.map((code) => [code, path])));
+}
+
+// WordPress dates are GMT without a timezone suffix
+function toDate(date?: string) {
+  return date ? new Date(date + "Z") : undefined;
+}
+
+function getFeaturedImage(item: SitemapItem) {
+  const media = item._embedded?.["wp:featuredmedia"]?.[0];
+  return media && "source_url" in media && media.source_url
+    ? [media.source_url]
+    : undefined;
+}
+
+type PathResolver = (
+  locale: Locale
+) => Promise<(item: Pick<SitemapItem, "id" | "slug" | "parent">) => string>;
+
+// Paths of the translations of `items` by item id, fetched per locale
+async function getTranslationPaths(
+  items: SitemapItem[],
+  path: string,
+  tag: string,
+  getPath: PathResolver
+): Promise<Map<number, Partial<Record<Locale, string>>>> {
+  const paths = new Map<number, Partial<Record<Locale, string>>>();
+
+  await Promise.all(
+    locales.map(async (locale) => {
+      const ids = items.flatMap((item) => {
+        const id = getTranslationIds(item)[locale];
+        return id ? [{ item: item.id, translation: id }] : [];
+      });
+
+      if (ids.length === 0) return;
+
+      const [translations, toPath] = await Promise.all([
+        getTranslatedItems(
+          path,
+          ids.map(({ translation }) => translation),
+          locale,
+          tag
+        ),
+        getPath(locale),
+      ]);
+      const byId = new Map(translations.map((item) => [item.id, item]));
+
+      ids.forEach(({ item, translation }) => {
+        const translated = byId.get(translation);
+        if (!translated) return;
+        paths.set(item, {
+          ...paths.get(item),
+          [locale]: toPath(translated),
+        });
+      });
+    })
+  );
+
+  return paths;
+}
+
+// A WordPress collection such as posts, pages or terms in one language. Items
+// with a modified date also carry their featured image. `translated` items
+// link their Polylang or WPML translations, others are the same everywhere.
+function wordpressSource({
+  path,
+  tag,
+  query = {},
+  dated = false,
+  translated = true,
+  getPath,
+  changeFrequency,
+  priority,
+}: {
+  path: string;
+  tag: string;
+  query?: Record<string, any>;
+  dated?: boolean;
+  translated?: boolean;
+  getPath: PathResolver;
+  changeFrequency: MetadataRoute.Sitemap[number]["changeFrequency"];
+  priority: number;
+}): (locale: Locale) => SitemapSource {
+  return (locale) => {
+    const localeQuery = { ...query, ...getLocaleQuery(locale) };
+    const fields = ["id", "slug", "parent"];
+    if (dated) fields.push("modified_gmt", "_links", "_embedded");
+    if (translated) fields.push("translations", "wpml_translations");
+
+    return {
+      count: () => getCollectionTotal(path, localeQuery, tag),
+      async entries(offset) {
+        const items = await getCollectionSlice<SitemapItem>(
+          path,
+          {
+            ...localeQuery,
+            _fields: fields.join(","),
+            _embed: dated ? "wp:featuredmedia" : undefined,
+          },
+          { offset, limit: SITEMAP_LIMIT },
+          tag
+        );
+        const [toPath, translations] = await Promise.all([
+          getPath(locale),
+          translated
+            ? getTranslationPaths(items, path, tag, getPath)
+            : new Map<number, Partial<Record<Locale, string>>>(),
+        ]);
+
+        return items.map((item) => {
+          const itemPath = toPath(item);
+
+          return {
+            url: toUrl(itemPath, locale),
+            lastModified: toDate(item.modified_gmt),
+            changeFrequency,
+            priority,
+            images: getFeaturedImage(item),
+            alternates: translated
+              ? toAlternates({
+                  ...translations.get(item.id),
+                  [locale]: itemPath,
+                })
+              : sharedAlternates(itemPath),
+          };
+        });
+      },
+    };
+  };
+}
+
+const slugPath = (base: string) => async () => (item: { slug: string }) =>
+  `${base}/${item.slug}`;
+
+// Tutor LMS courses, loaded lazily since the client throws at import when its
+// API credentials are not configured
+async function getAllCourses(): Promise<TutorCourse[]> {
+  const { getTutorCourses } = await import("./tutor-lms");
+  const courses: TutorCourse[] = [];
+  let paged = 1;
+  let batch: TutorCourse[];
+
+  do {
+    batch = await getTutorCourses({ per_page: 100, paged, status: "publish" });
+    courses.push(...batch);
+    paged++;
+  } while (batch.length === 100);
+
+  return courses;
+}
+
+// Content that is not translated is listed in every locale
+function sharedEntry(
+  path: string,
+  locale: Locale,
+  entry: Omit<MetadataRoute.Sitemap[number], "url" | "alternates">
+): MetadataRoute.Sitemap[number] {
+  return {
+    url: toUrl(path, locale),
+    alternates: sharedAlternates(path),
+    ...entry,
+  };
+}
+
+const coursesSource = (locale: Locale): SitemapSource => ({
+  count: async () => (await getAllCourses()).length,
+  async entries(offset) {
+    const courses = await getAllCourses();
+
+    return courses.slice(offset, offset + SITEMAP_LIMIT).map((course) =>
+      sharedEntry(`/courses/${course.slug}`, locale, {
+        lastModified: toDate(course.modified_gmt),
+        changeFrequency: "weekly",
+        priority: 0.6,
+      })
+    );
+  },
+});
+
+// Course pages are backed by WooCommerce products, looked up by slug
+const productsSource = (locale: Locale): SitemapSource => ({
+  count: async () =>
+    (await getProductsPage({ per_page: 1, status: "publish" })).total,
+  async entries(offset) {
+    // Products sold as a Tutor LMS course are already in the courses sitemap
+    const courseSlugs = new Set(
+      await getAllCourses()
+        .then((courses) => courses.map((course) => course.slug))
+        .catch(() => [])
+    );
+    const entries: MetadataRoute.Sitemap = [];
+    let page = offset / 100 + 1;
+    const lastPage = (offset + SITEMAP_LIMIT) / 100;
+    let totalPages = page;
+
+    do {
+      const products = await getProductsPage({
+        per_page: 100,
+        page,
+        status: "publish",
+      });
+
+      entries.push(
+        ...products.items
+          .filter((product) => !courseSlugs.has(product.slug))
+          .map((product) =>
+            sharedEntry(`/courses/${product.slug}`, locale, {
+              lastModified: toDate(product.date_modified_gmt),
+              changeFrequency: "weekly",
+              priority: 0.6,
+              images: product.images.map((image) => image.src),
+            })
+          )
+      );
+      totalPages = products.totalPages;
+      page++;
+    } while (page <= Math.min(lastPage, totalPages));
+
+    return entries;
+  },
+});
+
+const staticSource = (locale: Locale): SitemapSource => ({
+  count: async () => 1,
+  async entries() {
+    return [
+      sharedEntry("/", locale, { changeFrequency: "daily", priority: 1 }),
+      sharedEntry("/posts", locale, {
+        changeFrequency: "daily",
+        priority: 0.8,
+      }),
+      sharedEntry("/pages", locale, {
+        changeFrequency: "monthly",
+        priority: 0.5,
+      }),
+      sharedEntry("/courses", locale, {
+        changeFrequency: "weekly",
+        priority: 0.7,
+      }),
+      sharedEntry("/posts/authors", locale, {
+        changeFrequency: "monthly",
+        priority: 0.5,
+      }),
+      sharedEntry("/posts/categories", locale, {
+        changeFrequency: "monthly",
+        priority: 0.5,
+      }),
+      sharedEntry("/posts/tags", locale, {
+        changeFrequency: "monthly",
+        priority: 0.5,
+      }),
+      ...Object.keys(wpConfig.postTypes).map((postType) =>
+        sharedEntry(`/${postType}`, locale, {
+          changeFrequency: "weekly",
+          priority: 0.5,
+        })
+      ),
+    ];
+  },
+});
+
+const sitemapSources: Record<string, (locale: Locale) => SitemapSource> = {
+  static: staticSource,
+  posts: wordpressSource({
+    path: "posts",
+    tag: "posts",
+    dated: true,
+    getPath: slugPath("/posts"),
+    changeFrequency: "weekly",
+    priority: 0.7,
+  }),
+  pages: wordpressSource({
+    path: "pages",
+    tag: "pages",
+    dated: true,
+    // Pages are served at their nested path, e.g. `/pages/about/team`
+    getPath: async (locale) => {
+      const pages = await getPageHierarchy(locale);
+      return (item) =>
+        getPageHref({ ...item, parent: item.parent ?? 0 }, pages);
+    },
+    changeFrequency: "monthly",
+    priority: 0.6,
+  }),
+  ...Object.fromEntries(
+    Object.entries(wpConfig.postTypes).map(([postType, config]) => [
+      postType,
+      wordpressSource({
+        path: config.restBase,
+        tag: `type-${postType}`,
+        dated: true,
+        getPath: slugPath(`/${postType}`),
+        changeFrequency: "weekly",
+        priority: 0.6,
+      }),
+    ])
+  ),
+  categories: wordpressSource({
+    path: "categories",
+    tag: "categories",
+    query: { hide_empty: true },
+    getPath: slugPath("/posts/categories"),
+    changeFrequency: "weekly",
+    priority: 0.4,
+  }),
+  tags: wordpressSource({
+    path: "tags",
+    tag: "tags",
+    query: { hide_empty: true },
+    getPath: slugPath("/posts/tags"),
+    changeFrequency: "weekly",
+    priority: 0.3,
+  }),
+  // Only users with published posts are listed by the public API
+  authors: wordpressSource({
+    path: "users",
+    tag: "authors",
+    translated: false,
+    getPath: slugPath("/authors"),
+    changeFrequency: "weekly",
+    priority: 0.4,
+  }),
+  courses: coursesSource,
+  products: productsSource,
+};
+
+// Splits a chunk id such as `ko-events-2` into its locale, source and chunk
+// number
+function parseSitemapId(id: string) {
+  const localeEnd = id.indexOf("-");
+  const chunkStart = id.lastIndexOf("-");
+
+  return {
+    locale: id.slice(0, localeEnd),
+    name: id.slice(localeEnd + 1, chunkStart),
+    chunk: Number(id.slice(chunkStart + 1)),
+  };
+}
+
+// Chunk ids of every non-empty source in every locale. A failing source is
+// logged and left out, e.g. when WooCommerce or Tutor LMS is not configured.
+export async function getSitemapIds(): Promise<string[]> {
+  const sources = locales.flatMap((locale) =>
+    Object.entries(sitemapSources).map(([name, source]) => ({
+      locale,
+      name,
+      source,
+    }))
+  );
+  const counts = await Promise.allSettled(
+    sources.map(({ locale, source }) => source(locale).count())
+  );
+
+  return sources.flatMap(({ locale, name }, index) => {
+    const outcome = counts[index];
+
+    if (outcome.status === "rejected") {
+      console.error(
+        `Sitemap count failed for ${name} (${locale}):`,
+        outcome.reason
+      );
+      return [];
+    }
+
+    const chunks = Math.ceil(outcome.value / SITEMAP_LIMIT);
+    return Array.from(
+      { length: chunks },
+      (_, chunk) => `${locale}-${name}-${chunk}`
+    );
+  });
+}
+
+// Returns null for ids that name no sitemap, so the route can call `notFound()`
+export async function getSitemapEntries(
+  id: string
+): Promise<MetadataRoute.Sitemap | null> {
+  const { locale, name, chunk } = parseSitemapId(id);
+
+  // `name` comes from the URL; `hasOwn` keeps out e.g. `constructor`
+  if (
+    !isLocale(locale) ||
+    !Object.hasOwn(sitemapSources, name) ||
+    !Number.isInteger(chunk) ||
+    chunk < 0
+  ) {
+    return null;
+  }
+
+  return sitemapSources[name](locale).entries(chunk * SITEMAP_LIMIT);
+}
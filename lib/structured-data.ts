@@ -0,0 +1,498 @@
+// Description: schema.org JSON-LD for posts, courses, products and breadcrumbs
+// The builders are pure: they take the fetched data and absolute URLs and
+// return plain objects, which `components/content/json-ld.tsx` renders.
+
+import { decodeHtmlEntities } from "./html";
+import { Locale } from "./i18n";
+import {
+  TutorCourse,
+  TutorCourseContent,
+  TutorInstructor,
+} from "./tutor-lms-types";
+import { WooCommerceProduct } from "./woocommerce-types";
+import { PostWithRelations } from "./wordpress.d";
+import { siteConfig } from "@/site.config";
+
+// Schema types
+// Only the properties this site emits are typed. See https://schema.org
+
+export interface PersonSchema {
+  "@type": "Person";
+  name: string;
+  url?: string;
+  image?: string;
+  description?: string;
+}
+
+export interface OrganizationSchema {
+  "@type": "Organization";
+  "@id"?: string;
+  name: string;
+  url: string;
+  logo?: string;
+  description?: string;
+}
+
+// Refers to a node defined elsewhere on the page, e.g. the site organization
+export interface SchemaReference {
+  "@id": string;
+}
+
+export interface SearchActionSchema {
+  "@type": "SearchAction";
+  target: { "@type": "EntryPoint"; urlTemplate: string };
+  "query-input": string;
+}
+
+export interface WebSiteSchema {
+  "@type": "WebSite";
+  "@id"?: string;
+  name: string;
+  url: string;
+  description?: string;
+  inLanguage?: string;
+  publisher?: OrganizationSchema | SchemaReference;
+  potentialAction: SearchActionSchema;
+}
+
+export interface ArticleSchema {
+  "@type": "Article" | "BlogPosting";
+  headline: string;
+  description?: string;
+  url: string;
+  mainEntityOfPage: string;
+  datePublished: string;
+  dateModified: string;
+  inLanguage?: string;
+  author?: PersonSchema;
+  publisher?: OrganizationSchema | SchemaReference;
+  image?: string[];
+  articleSection?: string[];
+  keywords?: string[];
+}
+
+export interface AggregateRatingSchema {
+  "@type": "AggregateRating";
+  ratingValue: number;
+  ratingCount: number;
+  bestRating: number;
+  worstRating: number;
+}
+
+export type ItemAvailability =
+  | "https://schema.org/InStock"
+  | "https://schema.org/OutOfStock"
+  | "https://schema.org/BackOrder";
+
+export interface OfferSchema {
+  "@type": "Offer";
+  url?: string;
+  price: string;
+  priceCurrency: string;
+  availability?: ItemAvailability;
+  priceValidUntil?: string;
+  // `Free` or `Paid` on course offers
+  category?: string;
+}
+
+export interface ProductSchema {
+  "@type": "Product";
+  name: string;
+  url: string;
+  description?: string;
+  sku?: string;
+  image?: string[];
+  category?: string;
+  offers: OfferSchema;
+  aggregateRating?: AggregateRatingSchema;
+}
+
+export interface CourseInstanceSchema {
+  "@type": "CourseInstance";
+  courseMode: "Online";
+  // ISO 8601 duration, e.g. `PT5H30M`
+  courseWorkload?: string;
+  instructor?: PersonSchema[];
+}
+
+export interface SyllabusSchema {
+  "@type": "Syllabus";
+  name: string;
+  description?: string;
+}
+
+export interface CourseSchema {
+  "@type": "Course";
+  name: string;
+  description: string;
+  url: string;
+  inLanguage?: string;
+  image?: string[];
+  educationalLevel?: string;
+  provider: OrganizationSchema | SchemaReference;
+  offers?: OfferSchema[];
+  aggregateRating?: AggregateRatingSchema;
+  hasCourseInstance: CourseInstanceSchema[];
+  syllabusSections?: SyllabusSchema[];
+}
+
+export interface ListItemSchema {
+  "@type": "ListItem";
+  position: number;
+  name: string;
+  // Left out on the last item, which is the current page
+  item?: string;
+}
+
+export interface BreadcrumbListSchema {
+  "@type": "BreadcrumbList";
+  itemListElement: ListItemSchema[];
+}
+
+export type JsonLdSchema =
+  | OrganizationSchema
+  | WebSiteSchema
+  | ArticleSchema
+  | ProductSchema
+  | CourseSchema
+  | BreadcrumbListSchema;
+
+// The site, as the publisher and provider of its content
+export interface SchemaSite {
+  name: string;
+  // Home page URL without a trailing slash, e.g. `https://example.com`
+  url: string;
+  description?: string;
+  logo?: string;
+  // ISO 4217 code of product prices
+  currency: string;
+}
+
+export interface BreadcrumbInput {
+  title: string;
+  // Site path, e.g. `/posts`. The current page has none.
+  href?: string;
+}
+
+export function getSchemaSite(): SchemaSite {
+  return {
+    name: siteConfig.site_name,
+    url: siteConfig.site_domain.replace(/\/$/, ""),
+    description: siteConfig.site_description,
+    logo: `${siteConfig.site_domain.replace(/\/$/, "")}/logo.png`,
+    currency: siteConfig.currency,
+  };
+}
+
+// Helpers
+
+function toText(html: string) {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// WordPress `*_gmt` fields have no zone designator
+export function toSchemaDate(gmt: string) {
+  return /(Z|[+-]\d{2}:\d{2})$/.test(gmt) ? gmt : `${gmt}Z`;
+}
+
+// Converts a free-form duration such as `5 hours`, `2h 30m` or `01:30:00` to
+// ISO 8601. Returns undefined for text it can't read, e.g. `Self-paced`.
+export function toIsoDuration(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+
+  const clock = text.trim().match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  const parts = clock
+    ? { H: Number(clock[1]), M: Number(clock[2]), S: Number(clock[3] ?? 0) }
+    : { H: 0, M: 0, S: 0 };
+  let days = 0;
+
+  if (!clock) {
+    const units = text
+      .toLowerCase()
+      .matchAll(
+        /(\d+(?:\.\d+)?)\s*(weeks?|w|days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)(?![a-z])/g
+      );
+
+    for (const [, value, unit] of units) {
+      const amount = Number(value);
+      if (unit.startsWith("w")) days += amount * 7;
+      else if (unit.startsWith("d")) days += amount;
+      else if (unit.startsWith("h")) parts.H += amount;
+      else if (unit.startsWith("m")) parts.M += amount;
+      else parts.S += amount;
+    }
+  }
+
+  const time = (["H", "M", "S"] as const)
+    .filter((unit) => parts[unit] > 0)
+    .map((unit) => `${parts[unit]}${unit}`)
+    .join("");
+
+  if (!days && !time) return undefined;
+  return `P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+function getRatingSchema(
+  average: number,
+  count: number
+): AggregateRatingSchema | undefined {
+  return count > 0 && average > 0
+    ? {
+        "@type": "AggregateRating",
+        ratingValue: Math.round(average * 10) / 10,
+        ratingCount: count,
+        bestRating: 5,
+        worstRating: 1,
+      }
+    : undefined;
+}
+
+const availability: Record<
+  WooCommerceProduct["stock_status"],
+  ItemAvailability
+> = {
+  instock: "https://schema.org/InStock",
+  outofstock: "https://schema.org/OutOfStock",
+  onbackorder: "https://schema.org/BackOrder",
+};
+
+function getOfferSchema(
+  product: WooCommerceProduct,
+  url: string,
+  currency: string
+): OfferSchema {
+  const onSale = product.on_sale && product.sale_price;
+
+  return {
+    "@type": "Offer",
+    url,
+    price: (onSale ? product.sale_price : product.price) || "0",
+    priceCurrency: currency,
+    availability: availability[product.stock_status],
+    priceValidUntil:
+      onSale && product.date_on_sale_to_gmt
+        ? toSchemaDate(product.date_on_sale_to_gmt).slice(0, 10)
+        : undefined,
+  };
+}
+
+// Builders
+
+export function getOrganizationSchema(site: SchemaSite): OrganizationSchema {
+  return {
+    "@type": "Organization",
+    "@id": `${site.url}/#organization`,
+    name: site.name,
+    url: `${site.url}/`,
+    logo: site.logo,
+    description: site.description,
+  };
+}
+
+// `searchPath` is the localized search page, which reads the `q` parameter
+export function getWebSiteSchema(
+  site: SchemaSite,
+  { locale, searchPath }: { locale: Locale; searchPath: string }
+): WebSiteSchema {
+  return {
+    "@type": "WebSite",
+    "@id": `${site.url}/#website`,
+    name: site.name,
+    url: `${site.url}/`,
+    description: site.description,
+    inLanguage: locale,
+    publisher: { "@id": `${site.url}/#organization` },
+    potentialAction: {
+      "@type": "SearchAction",
+      target: {
+        "@type": "EntryPoint",
+        urlTemplate: `${site.url}${searchPath}?q={search_term_string}`,
+      },
+      "query-input": "required name=search_term_string",
+    },
+  };
+}
+
+export function getArticleSchema(
+  post: PostWithRelations,
+  { url, locale, site }: { url: string; locale: Locale; site: SchemaSite }
+): ArticleSchema {
+  const { author, featuredMedia, categories, tags } = post.relations;
+  const description = toText(post.excerpt.rendered);
+
+  return {
+    "@type": "BlogPosting",
+    headline: toText(post.title.rendered),
+    description: description || undefined,
+    url,
+    mainEntityOfPage: url,
+    datePublished: toSchemaDate(post.date_gmt),
+    dateModified: toSchemaDate(post.modified_gmt),
+    inLanguage: locale,
+    author: author
+      ? {
+          "@type": "Person",
+          name: author.name,
+          url: `${site.url}/authors/${author.slug}`,
+          image: Object.values(author.avatar_urls ?? {}).pop(),
+          description: author.description || undefined,
+        }
+      : undefined,
+    publisher: { "@id": `${site.url}/#organization` },
+    image: featuredMedia?.source_url ? [featuredMedia.source_url] : undefined,
+    articleSection: categories.length
+      ? categories.map((category) => category.name)
+      : undefined,
+    keywords: tags.length ? tags.map((tag) => tag.name) : undefined,
+  };
+}
+
+export function getProductSchema(
+  product: WooCommerceProduct,
+  { url, site }: { url: string; site: SchemaSite }
+): ProductSchema {
+  const description = toText(product.short_description || product.description);
+
+  return {
+    "@type": "Product",
+    name: toText(product.name),
+    url,
+    description: description || undefined,
+    sku: product.sku || undefined,
+    image: product.images.length
+      ? product.images.map((image) => image.src)
+      : undefined,
+    category: product.categories[0]?.name,
+    offers: getOfferSchema(product, url, site.currency),
+    aggregateRating: getRatingSchema(
+      parseFloat(product.average_rating) || 0,
+      product.rating_count
+    ),
+  };
+}
+
+// A Tutor LMS course, with the WooCommerce product that sells it when there
+// is one. Free courses without a product get a free offer.
+export function getCourseSchema(
+  course: TutorCourse,
+  {
+    url,
+    locale,
+    site,
+    content,
+    instructor,
+    product,
+  }: {
+    url: string;
+    locale: Locale;
+    site: SchemaSite;
+    content?: TutorCourseContent | null;
+    instructor?: TutorInstructor | null;
+    product?: WooCommerceProduct | null;
+  }
+): CourseSchema {
+  const name = toText(course.title.rendered) || product?.name || "";
+  const description =
+    toText(course.excerpt.rendered) ||
+    toText(product?.short_description ?? "") ||
+    toText(course.content.rendered).slice(0, 500) ||
+    name;
+  const isFree =
+    course.price_type === "free" ||
+    course.meta?._tutor_course_price_type === "free";
+  const offer: OfferSchema | undefined = product
+    ? getOfferSchema(product, url, site.currency)
+    : isFree
+      ? { "@type": "Offer", price: "0", priceCurrency: site.currency }
+      : undefined;
+  const rating = course.rating?.rating_count
+    ? getRatingSchema(course.rating.rating_avg, course.rating.rating_count)
+    : product
+      ? getRatingSchema(
+          parseFloat(product.average_rating) || 0,
+          product.rating_count
+        )
+      : undefined;
+
+  return {
+    "@type": "Course",
+    name,
+    description,
+    url,
+    inLanguage: locale,
+    image: product?.images.length
+      ? product.images.map((image) => image.src)
+      : undefined,
+    educationalLevel:
+      course.course_level || course.meta?._tutor_course_level || undefined,
+    provider: { "@id": `${site.url}/#organization` },
+    offers: offer
+      ? [
+          {
+            ...offer,
+            category: isFree || offer.price === "0" ? "Free" : "Paid",
+          },
+        ]
+      : undefined,
+    aggregateRating: rating,
+    hasCourseInstance: [
+      {
+        "@type": "CourseInstance",
+        courseMode: "Online",
+        courseWorkload: toIsoDuration(
+          course.course_duration ||
+            course.meta?._tutor_course_duration ||
+            content?.estimated_duration
+        ),
+        instructor: instructor
+          ? [
+              {
+                "@type": "Person",
+                name: instructor.display_name,
+                url: instructor.user_url || undefined,
+                image: instructor.avatar_url || undefined,
+                description: instructor.description || undefined,
+              },
+            ]
+          : undefined,
+      },
+    ],
+    syllabusSections: content?.topics.length
+      ? content.topics.map((topic) => ({
+          "@type": "Syllabus",
+          name: toText(topic.topic_title),
+          description: toText(topic.topic_summary ?? "") || undefined,
+        }))
+      : undefined,
+  };
+}
+
+// `baseUrl` is the localized home page, e.g. `https://example.com/ko`
+export function getBreadcrumbListSchema(
+  items: BreadcrumbInput[],
+  baseUrl: string
+): BreadcrumbListSchema {
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: items.map((item, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: toText(item.title),
+      item: item.href
+        ? `${baseUrl}${item.href === "/" ? "" : item.href}`
+        : undefined,
+    })),
+  };
+}
+
+// JSON for a `<script type="application/ld+json">`. Several schemas share one
+// `@graph`. `<` is escaped so content can't close the script element.
+export function serializeJsonLd(data: JsonLdSchema | JsonLdSchema[]): string {
+  const document = Array.isArray(data)
+    ? { "@context": "https://schema.org", "@graph": data }
+    : { "@context": "https://schema.org", ...data };
+
+  return JSON.stringify(document).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,122 @@
+// Description: Links between the translations of posts, pages and entries
+// Translation ids come from Polylang or WPML. Without either plugin an item
+// only links to itself in the current locale.
+
+import { getPageHierarchy, getTranslatedItems } from "./wordpress";
+import { getPageHref } from "./page-tree";
+import {
+  defaultLocale,
+  getTranslationIds,
+  locales,
+  localizePath,
+  Locale,
+  TranslationFields,
+} from "./i18n";
+import { getLocale } from "./request-locale";
+import { TranslatedItem } from "./wordpress.d";
+import { siteConfig } from "@/site.config";
+import { wpConfig } from "@/wp.config";
+
+// Localized paths of an item and its translations, in `locales` order
+export type TranslationPaths = Partial<Record<Locale, string>>;
+
+type TranslatableItem = TranslationFields & { id: number };
+
+async function getTranslationPaths(
+  item: TranslatableItem,
+  path: string,
+  {
+    collection,
+    tag,
+    getPath,
+  }: {
+    collection: string;
+    tag: string;
+    // Path of a translation, without the locale prefix
+    getPath: (
+      translation: TranslatedItem,
+      locale: Locale
+    ) => Promise<string | null>;
+  }
+): Promise<TranslationPaths> {
+  const locale = await getLocale();
+  const found: TranslationPaths = { [locale]: localizePath(path, locale) };
+
+  // A translation that can't be fetched, e.g. a draft, is left out
+  await Promise.all(
+    Object.entries(getTranslationIds(item)).map(async ([other, id]) => {
+      const target = other as Locale;
+      const [translation] = await getTranslatedItems(
+        collection,
+        [id],
+        target,
+        tag
+      ).catch(() => []);
+      const translatedPath =
+        translation && (await getPath(translation, target));
+
+      if (translatedPath) {
+        found[target] = localizePath(translatedPath, target);
+      }
+    })
+  );
+
+  return Object.fromEntries(
+    locales.flatMap((code) => (found[code] ? [[code, found[code]]] : []))
+  );
+}
+
+export function getPostTranslationPaths(
+  post: TranslatableItem & { slug: string }
+): Promise<TranslationPaths> {
+  return getTranslationPaths(post, `/posts/${post.slug}`, {
+    collection: "posts",
+    tag: "posts",
+    getPath: async (translation) => `/posts/${translation.slug}`,
+  });
+}
+
+export function getEntryTranslationPaths(
+  postType: string,
+  entry: TranslatableItem & { slug: string }
+): Promise<TranslationPaths> {
+  return getTranslationPaths(entry, `/${postType}/${entry.slug}`, {
+    collection: wpConfig.postTypes[postType].restBase,
+    tag: `type-${postType}`,
+    getPath: async (translation) => `/${postType}/${translation.slug}`,
+  });
+}
+
+// Pages are nested, so a translation's path comes from its own hierarchy
+export function getPageTranslationPaths(
+  page: TranslatableItem,
+  path: string
+): Promise<TranslationPaths> {
+  return getTranslationPaths(page, path, {
+    collection: "pages",
+    tag: "pages",
+    getPath: async (translation, locale) => {
+      const pages = await getPageHierarchy(locale);
+      const translated = pages.find((item) => item.id === translation.id);
+      return translated ? getPageHref(translated, pages) : null;
+    },
+  });
+}
+
+// `hreflang` alternates for metadata. The default locale doubles as `x-default`.
+export function getAlternateLanguages(
+  paths: TranslationPaths
+): Record<string, string> {
+  const languages: Record<string, string> = Object.fromEntries(
+    Object.entries(paths).map(([locale, path]) => [
+      locale,
+      `${siteConfig.site_domain}${path}`,
+    ])
+  );
+
+  if (languages[defaultLocale]) {
+    languages["x-default"] = languages[defaultLocale];
+  }
+
+  return languages;
+}
@@ -26,6 +26,16 @@ export async function getProducts(params?: WooCommerceProductsQueryParams): Prom
   return response.data;
 }
 
+// A page of products with the totals from the `X-WP-Total` headers
+export async function getProductsPage(params: WooCommerceProductsQueryParams = {}): Promise<{ items: WooCommerceProduct[]; total: number; totalPages: number }> {
+  const response = await api.get("products", params);
+  return {
+    items: response.data,
+    total: Number(response.headers["x-wp-total"] ?? response.data.length),
+    totalPages: Number(response.headers["x-wp-totalpages"] ?? 1),
+  };
+}
+
 export async function getProduct(id: number): Promise<WooCommerceProduct> {
   const response = await api.get(`products/${id}`);
   return response.data;
@@ -160,6 +170,12 @@ export async function searchProducts(searchTerm: string, params?: Omit<WooCommer
   return getProducts({ ...params, search: searchTerm });
 }
 
+// Returns null when no published product has this slug
+export async function getProductBySlug(slug: string): Promise<WooCommerceProduct | null> {
+  const products = await getProducts({ slug, per_page: 1, status: 'publish' });
+  return products[0] ?? null;
+}
+
 export async function getProductsBySku(sku: string): Promise<WooCommerceProduct[]> {
   return getProducts({ sku });
 }
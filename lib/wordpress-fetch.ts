@@ -0,0 +1,329 @@
+// Description: Resilient fetch for the WordPress REST API
+// Adds timeouts, retries with exponential backoff for idempotent requests,
+// a circuit breaker and a last-known-good response cache used during outages
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Error handling utility
+export class WordPressAPIError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public endpoint: string
+  ) {
+    super(message);
+    this.name = "WordPressAPIError";
+  }
+}
+
+// 404, e.g. an unknown post id
+export class WordPressNotFoundError extends WordPressAPIError {
+  constructor(message: string, endpoint: string) {
+    super(message, 404, endpoint);
+    this.name = "WordPressNotFoundError";
+  }
+}
+
+// 401/403, e.g. a missing or revoked application password
+export class WordPressUnauthorizedError extends WordPressAPIError {
+  constructor(message: string, status: number, endpoint: string) {
+    super(message, status, endpoint);
+    this.name = "WordPressUnauthorizedError";
+  }
+}
+
+// The request did not complete within the timeout
+export class WordPressTimeoutError extends WordPressAPIError {
+  constructor(
+    public timeout: number,
+    endpoint: string
+  ) {
+    super(`WordPress API request timed out after ${timeout}ms`, 504, endpoint);
+    this.name = "WordPressTimeoutError";
+  }
+}
+
+// WordPress could not be reached, or the circuit breaker is open
+export class WordPressUnavailableError extends WordPressAPIError {
+  constructor(message: string, endpoint: string) {
+    super(message, 503, endpoint);
+    this.name = "WordPressUnavailableError";
+  }
+}
+
+export interface ResilienceOptions {
+  // Milliseconds before a request is aborted
+  timeout?: number;
+  // Extra attempts for idempotent requests
+  retries?: number;
+}
+
+export interface FetchResult<T> {
+  data: T;
+  headers: Headers;
+  // True when served from the last-known-good cache during an outage
+  stale: boolean;
+}
+
+type RequestOptions = RequestInit & {
+  next?: { revalidate?: number | false; tags?: string[] };
+};
+
+// `0` disables retries; anything that isn't a whole number uses the fallback
+function parseRetries(value: string | undefined, fallback: number): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0
+    ? retries
+    : fallback;
+}
+
+const DEFAULT_TIMEOUT = Number(process.env.WORDPRESS_FETCH_TIMEOUT) || 10000;
+const DEFAULT_RETRIES = parseRetries(process.env.WORDPRESS_FETCH_RETRIES, 2);
+const RETRY_BASE_DELAY = 250;
+
+// Statuses worth retrying; anything else will fail the same way again
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Circuit breaker: after FAILURE_THRESHOLD consecutive failures, requests fail
+// fast for COOLDOWN ms, then a single trial request decides whether to close it
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN = 30000;
+
+const circuit = {
+  failures: 0,
+  openedAt: 0,
+  trialInFlight: false,
+};
+
+function isCircuitOpen(): boolean {
+  if (circuit.failures < FAILURE_THRESHOLD) {
+    return false;
+  }
+
+  if (Date.now() - circuit.openedAt < COOLDOWN || circuit.trialInFlight) {
+    return true;
+  }
+
+  circuit.trialInFlight = true;
+  return false;
+}
+
+function recordSuccess() {
+  circuit.failures = 0;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure() {
+  circuit.failures++;
+  circuit.trialInFlight = false;
+  if (circuit.failures >= FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+}
+
+// Last-known-good responses by URL, for anonymous GET requests only
+const MAX_STALE_ENTRIES = 500;
+const staleCache = new Map<
+  string,
+  { data: unknown; headers: [string, string][] }
+>();
+
+function storeStale(url: string, data: unknown, headers: Headers) {
+  // Re-inserting moves the entry to the end, so the oldest is evicted first
+  staleCache.delete(url);
+  staleCache.set(url, { data, headers: Array.from(headers.entries()) });
+
+  if (staleCache.size > MAX_STALE_ENTRIES) {
+    staleCache.delete(staleCache.keys().next().value!);
+  }
+}
+
+export const STALE_WARNING = '110 - "Response is Stale"';
+
+// Whether the route handler running in `withStaleWarning` used stale data
+const staleTracker = new AsyncLocalStorage<{ stale: boolean }>();
+
+function getStale<T>(url: string): FetchResult<T> | null {
+  const entry = staleCache.get(url);
+
+  if (!entry) {
+    return null;
+  }
+
+  const tracked = staleTracker.getStore();
+  if (tracked) tracked.stale = true;
+
+  const headers = new Headers(entry.headers);
+  headers.set("Warning", STALE_WARNING);
+
+  return { data: entry.data as T, headers, stale: true };
+}
+
+// Wraps a route handler so its response gets the stale `Warning` header when
+// any WordPress request it made was served from the last-known-good cache.
+// Pages can't set headers; their stale fetches are only logged.
+export function withStaleWarning<A extends unknown[]>(
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return (...args) => {
+    const tracked = { stale: false };
+
+    return staleTracker.run(tracked, async () => {
+      const response = await handler(...args);
+      if (tracked.stale) response.headers.set("Warning", STALE_WARNING);
+      return response;
+    });
+  };
+}
+
+function createError(
+  status: number,
+  message: string,
+  endpoint: string
+): WordPressAPIError {
+  if (status === 404) return new WordPressNotFoundError(message, endpoint);
+  if (status === 401 || status === 403) {
+    return new WordPressUnauthorizedError(message, status, endpoint);
+  }
+  return new WordPressAPIError(message, status, endpoint);
+}
+
+// Failures that say WordPress is unhealthy, as opposed to a bad request
+function isOutage(error: unknown): boolean {
+  return (
+    !(error instanceof WordPressAPIError) ||
+    error instanceof WordPressTimeoutError ||
+    error instanceof WordPressUnavailableError ||
+    error.status >= 500
+  );
+}
+
+function isRetryable(error: unknown): boolean {
+  return (
+    !(error instanceof WordPressAPIError) ||
+    error instanceof WordPressTimeoutError ||
+    RETRYABLE_STATUSES.has(error.status)
+  );
+}
+
+async function parseBody(response: Response, url: string): Promise<unknown> {
+  const text = await response.text();
+
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    // e.g. an HTML error page from a proxy or a PHP fatal error
+    throw new WordPressAPIError(
+      `WordPress API returned an invalid JSON response (${response.status})`,
+      response.status,
+      url
+    );
+  }
+}
+
+async function fetchOnce<T>(
+  url: string,
+  init: RequestOptions,
+  timeout: number
+): Promise<FetchResult<T>> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new WordPressTimeoutError(timeout, url);
+    }
+    throw new WordPressUnavailableError(
+      `WordPress API request failed: ${error instanceof Error ? error.message : error}`,
+      url
+    );
+  }
+
+  if (!response.ok) {
+    // WordPress errors are JSON with a `message`, proxies may send anything
+    const body = await parseBody(response, url).catch(() => null);
+    const message =
+      (body as { message?: string } | null)?.message ?? response.statusText;
+
+    throw createError(
+      response.status,
+      `WordPress API request failed: ${message}`,
+      url
+    );
+  }
+
+  const data = (await parseBody(response, url)) as T;
+  return { data, headers: response.headers, stale: false };
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function resilientFetch<T>(
+  url: string,
+  init: RequestOptions = {},
+  {
+    timeout = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+  }: ResilienceOptions = {}
+): Promise<FetchResult<T>> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const idempotent = method === "GET" || method === "HEAD";
+  const authenticated = new Headers(init.headers).has("Authorization");
+  // Authenticated and uncached responses (previews, held comments, unlocked
+  // protected posts) are never shared
+  const cacheable =
+    method === "GET" && !authenticated && init.cache !== "no-store";
+
+  if (isCircuitOpen()) {
+    const stale = cacheable ? getStale<T>(url) : null;
+    if (stale) return stale;
+
+    throw new WordPressUnavailableError(
+      "WordPress API is unavailable, skipping request while the circuit is open",
+      url
+    );
+  }
+
+  const attempts = idempotent ? retries + 1 : 1;
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      // Exponential backoff with jitter: ~250ms, ~500ms, ~1s, ...
+      const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+      await wait(delay + Math.random() * delay);
+    }
+
+    try {
+      const result = await fetchOnce<T>(url, init, timeout);
+      recordSuccess();
+      if (cacheable) storeStale(url, result.data, result.headers);
+      return result;
+    } catch (error) {
+      lastError = error;
+      if (!isRetryable(error)) break;
+    }
+  }
+
+  if (!isOutage(lastError)) {
+    // The request itself was wrong, WordPress is healthy
+    recordSuccess();
+    throw lastError;
+  }
+
+  recordFailure();
+
+  const stale = cacheable ? getStale<T>(url) : null;
+  if (stale) {
+    console.warn(`Serving stale WordPress response for ${url}:`, lastError);
+    return stale;
+  }
+
+  throw lastError;
+}
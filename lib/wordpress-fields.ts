@@ -0,0 +1,109 @@
+// Description: Runtime validation for ACF and meta fields
+// Field schemas are declared per post type in `wp.config.ts` and applied
+// by the fetch functions in `lib/wordpress.ts`
+
+import { z } from "zod";
+
+import { fieldSchemas } from "@/wp.config";
+
+// Zod schemas for the `acf` and `meta` fields of a post type
+export interface FieldSchema {
+  acf?: z.ZodTypeAny;
+  meta?: z.ZodTypeAny;
+}
+
+type FieldSchemas = typeof fieldSchemas;
+
+// `T` with its `acf`/`meta` fields replaced by the types inferred from the
+// schema of post type `P`. Post types without a schema keep `T` as-is.
+export type WithFields<T, P extends string> = P extends keyof FieldSchemas
+  ? Omit<T, keyof FieldSchemas[P]> & {
+      [K in keyof FieldSchemas[P]]: FieldSchemas[P][K] extends z.ZodTypeAny
+        ? z.infer<FieldSchemas[P][K]>
+        : never;
+    }
+  : T;
+
+interface FieldEntity {
+  id: number;
+  slug: string;
+  acf?: unknown;
+  meta?: unknown;
+}
+
+// Thrown when an entity's fields do not match its schema
+export class WordPressFieldValidationError extends Error {
+  constructor(
+    public postType: string,
+    public entityId: number,
+    public field: "acf" | "meta",
+    public issues: z.ZodIssue[],
+    slug: string
+  ) {
+    const details = issues
+      .map((issue) => {
+        const path = [field, ...issue.path].join(".");
+        return `${path}: ${issue.message}`;
+      })
+      .join("; ");
+
+    super(
+      `Invalid fields on ${postType} #${entityId} ("${slug}"): ${details}`
+    );
+    this.name = "WordPressFieldValidationError";
+  }
+}
+
+// Validate an entity against the field schema of its post type
+export function validateFields<T extends FieldEntity, P extends string>(
+  postType: P,
+  entity: T
+): WithFields<T, P> {
+  if (!Object.hasOwn(fieldSchemas, postType)) {
+    return entity as WithFields<T, P>;
+  }
+
+  const schema = (fieldSchemas as Record<string, FieldSchema>)[postType];
+  const result: Record<string, unknown> = { ...(entity as FieldEntity) };
+
+  for (const field of ["acf", "meta"] as const) {
+    const fieldSchema = schema[field];
+    if (!fieldSchema) continue;
+
+    const parsed = fieldSchema.safeParse(entity[field]);
+
+    if (!parsed.success) {
+      throw new WordPressFieldValidationError(
+        postType,
+        entity.id,
+        field,
+        parsed.error.issues,
+        entity.slug
+      );
+    }
+
+    result[field] = parsed.data;
+  }
+
+  return result as WithFields<T, P>;
+}
+
+// Validate a list of entities against the field schema of their post type.
+// Invalid entities are logged and left out, so one bad entry doesn't break a
+// whole listing; single entity fetches still throw. `X-WP-Total` still counts
+// them: paginated fetches subtract those dropped from the page they return,
+// but invalid entities on other pages are only known once those are fetched.
+export function validateFieldsList<T extends FieldEntity, P extends string>(
+  postType: P,
+  entities: T[]
+): WithFields<T, P>[] {
+  return entities.flatMap((entity) => {
+    try {
+      return [validateFields(postType, entity)];
+    } catch (error) {
+      if (!(error instanceof WordPressFieldValidationError)) throw error;
+      console.error(error.message);
+      return [];
+    }
+  });
+}
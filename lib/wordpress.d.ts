@@ -1,5 +1,7 @@
+import type { TranslationFields } from "./i18n";
+
 // Common types that are reused across multiple entities
-interface WPEntity {
+interface WPEntity extends TranslationFields {
   id: number;
   date: string;
   date_gmt: string;
@@ -35,6 +37,7 @@ interface MediaDetails {
   width: number;
   height: number;
   file: string;
+  filesize?: number;
   sizes: Record<string, MediaSize>;
 }
 
@@ -51,10 +54,15 @@ export interface FeaturedMedia extends WPEntity {
   source_url: string;
 }
 
+interface RawContent extends RenderedContent {
+  raw?: string;
+  block_version?: number;
+}
+
 // Content types
 export interface Post extends WPEntity {
   title: RenderedTitle;
-  content: RenderedContent;
+  content: RawContent;
   excerpt: RenderedContent;
   author: number;
   featured_media: number;
@@ -76,6 +84,8 @@ export interface Post extends WPEntity {
   categories: number[];
   tags: number[];
   meta: Record<string, unknown>;
+  // Present when requested with `_embed`
+  _embedded?: PostEmbedded;
 }
 
 export interface Page extends WPEntity {
@@ -92,6 +102,41 @@ export interface Page extends WPEntity {
   meta: Record<string, unknown>;
 }
 
+// Fields of an item in another language, used to link translations
+export interface TranslatedItem {
+  id: number;
+  slug: string;
+  parent?: number;
+}
+
+// Page fields needed to build the page hierarchy
+export type PageSummary = Pick<
+  Page,
+  "id" | "slug" | "title" | "parent" | "menu_order" | "link"
+>;
+
+export interface PageNode extends PageSummary {
+  // Nested URL of the page, e.g. `/pages/about/team`
+  href: string;
+  children: PageNode[];
+}
+
+// Generic entry for custom post types registered in `wp.config.ts`
+export interface Entry extends WPEntity {
+  type: string;
+  title: RenderedTitle;
+  content: RenderedContent;
+  excerpt: RenderedContent;
+  author: number;
+  featured_media: number;
+  template: string;
+  meta: Record<string, unknown>;
+  acf?: Record<string, unknown>;
+  _embedded?: {
+    "wp:featuredmedia"?: FeaturedMedia[];
+  };
+}
+
 // Taxonomy types
 interface Taxonomy {
   id: number;
@@ -112,6 +157,12 @@ export interface Tag extends Taxonomy {
   taxonomy: "post_tag";
 }
 
+// Generic term for any taxonomy
+export interface Term extends Taxonomy {
+  taxonomy: string;
+  parent?: number;
+}
+
 export interface Author {
   id: number;
   name: string;
@@ -123,6 +174,129 @@ export interface Author {
   meta: Record<string, unknown>;
 }
 
+// Embedded types
+// `_embed` returns a subset of each related entity, or an error object when
+// the relation cannot be read (e.g. a private author or a deleted image)
+export type EmbeddedAuthor = Pick<
+  Author,
+  "id" | "name" | "url" | "description" | "link" | "slug" | "avatar_urls"
+>;
+
+export type EmbeddedMedia = Pick<
+  FeaturedMedia,
+  | "id"
+  | "slug"
+  | "link"
+  | "title"
+  | "author"
+  | "caption"
+  | "alt_text"
+  | "media_type"
+  | "mime_type"
+  | "media_details"
+  | "source_url"
+>;
+
+export type EmbeddedTerm = Pick<
+  Term,
+  "id" | "link" | "name" | "slug" | "taxonomy"
+>;
+
+export interface EmbeddedError {
+  code: string;
+  message: string;
+  data?: { status: number };
+}
+
+export interface PostEmbedded {
+  author?: (EmbeddedAuthor | EmbeddedError)[];
+  "wp:featuredmedia"?: (EmbeddedMedia | EmbeddedError)[];
+  // One list of terms per taxonomy, e.g. categories then tags
+  "wp:term"?: EmbeddedTerm[][];
+}
+
+// Relations of a post, resolved from `_embedded` or fetched in batches
+export interface PostRelations {
+  author: EmbeddedAuthor | null;
+  featuredMedia: EmbeddedMedia | null;
+  categories: EmbeddedTerm[];
+  tags: EmbeddedTerm[];
+}
+
+export type PostWithRelations<T extends Post = Post> = T & {
+  relations: PostRelations;
+};
+
+// Menu types
+export interface MenuLocation {
+  name: string;
+  description: string;
+  menu: number;
+}
+
+export interface MenuItem {
+  id: number;
+  title: RenderedTitle;
+  url: string;
+  status: string;
+  attr_title: string;
+  description: string;
+  type: "post_type" | "post_type_archive" | "taxonomy" | "custom";
+  type_label: string;
+  object: string;
+  object_id: number;
+  parent: number;
+  menu_order: number;
+  target: string;
+  classes: string[];
+  xfn: string[];
+  menus: number;
+}
+
+// Menu item resolved to a Next route, with its children nested
+export interface NavItem {
+  id: number | string;
+  title: string;
+  href: string;
+  external: boolean;
+  children: NavItem[];
+}
+
+// Comment types
+export interface Comment {
+  id: number;
+  post: number;
+  parent: number;
+  author: number;
+  author_name: string;
+  author_url: string;
+  date: string;
+  date_gmt: string;
+  content: {
+    rendered: string;
+  };
+  link: string;
+  status: "approved" | "hold" | "spam" | "trash";
+  type: string;
+  author_avatar_urls: Record<string, string>;
+  meta: Record<string, unknown>;
+}
+
+export interface CommentThread extends Comment {
+  replies: CommentThread[];
+}
+
+export interface CommentInput {
+  post: number;
+  parent?: number;
+  author_name: string;
+  author_email: string;
+  author_url?: string;
+  content: string;
+  // Required by WordPress when the post is password protected
+  password?: string;
+}
+
 // Block types
 interface BlockSupports {
   align?: boolean | string[];
@@ -178,7 +352,8 @@ export interface EditorBlock {
   attributes: Record<string, unknown>;
   innerBlocks: EditorBlock[];
   innerHTML: string;
-  innerContent: string[];
+  // HTML chunks, with `null` marking where each inner block goes
+  innerContent: (string | null)[];
 }
 
 export interface TemplatePart {
@@ -216,6 +391,43 @@ export interface SearchResult {
       href: string;
     }>;
   };
+  // Present when requested with `_embed=self`
+  _embedded?: {
+    self?: Array<{
+      slug: string;
+      excerpt?: RenderedContent;
+    }>;
+  };
+}
+
+// Query and response types
+export interface PostFilterParams {
+  author?: string;
+  tag?: string;
+  category?: string;
+  search?: string;
+  // ISO 8601 dates in the site's timezone, both exclusive
+  after?: string;
+  before?: string;
+}
+
+export interface PageParams {
+  page?: number;
+  perPage?: number;
+}
+
+export interface EntryQueryParams extends PageParams {
+  search?: string;
+  orderby?: string;
+  order?: "asc" | "desc";
+  // Term ids keyed by taxonomy REST base, e.g. `{ genres: [3, 4] }`
+  terms?: Record<string, number[]>;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  totalPages: number;
 }
 
 // Component Props Types
@@ -4,7 +4,42 @@
 
 import querystring from "query-string";
 import { revalidateTag } from "next/cache";
-import { headers } from "next/headers";
+import { draftMode, headers } from "next/headers";
+
+import { parseBlocks } from "./blocks";
+import {
+  defaultLocale,
+  getItemLocale,
+  getLocaleQuery,
+  isLocale,
+  Locale,
+  LOCALE_HEADER,
+  localizePath,
+} from "./i18n";
+import {
+  ArchiveMonth,
+  ArchivePeriod,
+  getPeriodBounds,
+  getPeriodTag,
+  groupArchiveMonths,
+} from "./post-archives";
+import { getPageAncestors, getPageHref } from "./page-tree";
+import {
+  FetchResult,
+  resilientFetch,
+  WordPressAPIError,
+  WordPressNotFoundError,
+  WordPressTimeoutError,
+  WordPressUnauthorizedError,
+  WordPressUnavailableError,
+} from "./wordpress-fetch";
+import {
+  validateFields,
+  validateFieldsList,
+  WithFields,
+  WordPressFieldValidationError,
+} from "./wordpress-fields";
+import { wpConfig } from "@/wp.config";
 
 import {
   Post,
@@ -13,6 +48,26 @@ import {
   Page,
   Author,
   FeaturedMedia,
+  EditorBlock,
+  MenuItem,
+  MenuLocation,
+  Comment,
+  CommentInput,
+  CommentThread,
+  Entry,
+  EntryQueryParams,
+  Term,
+  PaginatedResponse,
+  PageParams,
+  PostFilterParams,
+  PostWithRelations,
+  PageSummary,
+  EmbeddedAuthor,
+  EmbeddedError,
+  EmbeddedMedia,
+  EmbeddedTerm,
+  SearchResult,
+  TranslatedItem,
 } from "./wordpress.d";
 
 // WordPress Config
@@ -29,6 +84,12 @@ interface FetchOptions {
     tags?: string[];
   };
   headers?: HeadersInit;
+  cache?: RequestCache;
+  method?: string;
+  body?: BodyInit;
+  // Overrides for the request timeout (ms) and retry count
+  timeout?: number;
+  retries?: number;
 }
 
 function getUrl(path: string, query?: Record<string, any>) {
@@ -48,93 +109,231 @@ const defaultFetchOptions: FetchOptions = {
   },
 };
 
-// Error handling utility
-class WordPressAPIError extends Error {
-  constructor(message: string, public status: number, public endpoint: string) {
-    super(message);
-    this.name = "WordPressAPIError";
+// Query and fetch options for draft mode previews. Requests are authenticated
+// with an application password and skip the cache so editors see their latest changes.
+const previewQuery = {
+  context: "edit",
+  status: "any",
+};
+
+// Basic auth header from the application password, or null when not configured
+function getApplicationPasswordHeader(): string | null {
+  const username = process.env.WORDPRESS_PREVIEW_USERNAME;
+  const password = process.env.WORDPRESS_APPLICATION_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return `Basic ${btoa(`${username}:${password}`)}`;
+}
+
+// Drafts saved without a slug are routed by id in draft mode, see
+// `getPreviewPath`. Returns null for items that have a slug.
+async function getUnsluggedPreview<T extends Post | Page>(
+  type: "posts" | "pages",
+  id: string
+): Promise<T | null> {
+  if (!/^\d+$/.test(id)) {
+    return null;
+  }
+
+  try {
+    const item = await wordpressFetch<T>(
+      getUrl(`/wp-json/wp/v2/${type}/${id}`, {
+        ...(type === "posts" && { _embed: true }),
+        context: "edit",
+      }),
+      getPreviewFetchOptions()
+    );
+    return item.slug ? null : item;
+  } catch (error) {
+    if (error instanceof WordPressNotFoundError) {
+      return null;
+    }
+    throw error;
   }
 }
 
+function getPreviewFetchOptions(): FetchOptions {
+  const authorization = getApplicationPasswordHeader();
+
+  if (!authorization) {
+    throw new Error(
+      "WORDPRESS_PREVIEW_USERNAME and WORDPRESS_APPLICATION_PASSWORD environment variables are required for preview"
+    );
+  }
+
+  return {
+    cache: "no-store",
+    next: {
+      revalidate: 0,
+    },
+    headers: {
+      Authorization: authorization,
+    },
+  };
+}
+
+// Adds the language of the current request to content queries that don't
+// select one already. Routes without a locale, e.g. feeds, leave the language
+// to WordPress.
+function withRequestLocale(url: string, locale: string | null, method = "GET") {
+  if (
+    !isLocale(locale) ||
+    method !== "GET" ||
+    !url.startsWith(`${baseUrl}/wp-json/wp/v2/`) ||
+    /[?&]lang=/.test(url)
+  ) {
+    return url;
+  }
+
+  const query = querystring.stringify(getLocaleQuery(locale));
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
 // Utility function for making WordPress API requests
-async function wordpressFetch<T>(
+// Returns the parsed body along with the response headers, which carry
+// pagination totals (`X-WP-Total`, `X-WP-TotalPages`) for collection endpoints.
+// During an outage the last good response is returned with `stale: true`.
+async function wordpressFetchWithHeaders<T>(
   url: string,
   options: FetchOptions = {}
-): Promise<T> {
+): Promise<FetchResult<T>> {
   const headersList = await headers();
   const userAgent = headersList.get("user-agent") || "Next.js WordPress Client";
-
-  const response = await fetch(url, {
-    ...defaultFetchOptions,
-    ...options,
-    headers: {
-      ...defaultFetchOptions.headers,
-      "User-Agent": userAgent,
-      ...options.headers,
+  const { timeout, retries, ...init } = options;
+
+  return resilientFetch<T>(
+    withRequestLocale(url, headersList.get(LOCALE_HEADER), init.method),
+    {
+      ...defaultFetchOptions,
+      ...init,
+      headers: {
+        ...defaultFetchOptions.headers,
+        "User-Agent": userAgent,
+        ...init.headers,
+      },
     },
-  });
-  const body = await response.json();
-  if (!response.ok) {
-    throw new WordPressAPIError(
-      `WordPress API request failed: ${response.statusText}`,
-      response.status,
-      url
-    );
+    { timeout, retries }
+  );
+}
+
+async function wordpressFetch<T>(
+  url: string,
+  options: FetchOptions = {}
+): Promise<T> {
+  const { data } = await wordpressFetchWithHeaders<T>(url, options);
+  return data;
+}
+
+// Builds the WordPress query for post filters shared by the post list functions
+function getPostsQuery(filterParams?: PostFilterParams): Record<string, any> {
+  const query: Record<string, any> = {};
+
+  if (filterParams?.search) {
+    // Search in post content and title
+    query.search = filterParams.search;
+  }
+  if (filterParams?.author) {
+    query.author = filterParams.author;
+  }
+  if (filterParams?.tag) {
+    query.tags = filterParams.tag;
+  }
+  if (filterParams?.category) {
+    query.categories = filterParams.category;
+  }
+  if (filterParams?.after) {
+    query.after = filterParams.after;
+  }
+  if (filterParams?.before) {
+    query.before = filterParams.before;
   }
 
-  return body;
+  return query;
 }
 
 // WordPress Functions
 
-export async function getAllPosts(filterParams?: {
-  author?: string;
-  tag?: string;
-  category?: string;
-  search?: string;
-}): Promise<Post[]> {
+export async function getAllPosts(
+  filterParams?: PostFilterParams
+): Promise<WithFields<Post, "post">[]> {
   const query: Record<string, any> = {
     _embed: true,
     per_page: 100,
+    ...getPostsQuery(filterParams),
   };
 
-  if (filterParams?.search) {
-    // Search in post content and title
-    query.search = filterParams.search;
-
-    // If we have additional filters with search, use them
-    if (filterParams?.author) {
-      query.author = filterParams.author;
-    }
-    if (filterParams?.tag) {
-      query.tags = filterParams.tag;
-    }
-    if (filterParams?.category) {
-      query.categories = filterParams.category;
-    }
-  } else {
-    // If no search term, just apply filters
-    if (filterParams?.author) {
-      query.author = filterParams.author;
-    }
-    if (filterParams?.tag) {
-      query.tags = filterParams.tag;
-    }
-    if (filterParams?.category) {
-      query.categories = filterParams.category;
-    }
-  }
-
   const url = getUrl("/wp-json/wp/v2/posts", query);
-  return wordpressFetch<Post[]>(url, {
+  const response = await wordpressFetch<Post[]>(url, {
     next: {
       ...defaultFetchOptions.next,
       tags: ["wordpress", "posts"],
     },
   });
+
+  return validateFieldsList("post", response);
 }
 
-export async function getPostById(id: number): Promise<Post> {
+// Fetches a single page of posts, using the WordPress total headers
+// to report how many posts and pages exist for the query
+async function getPostsPage(
+  query: Record<string, any>,
+  { page = 1, perPage = 9 }: { page?: number; perPage?: number },
+  tags: string[]
+): Promise<PaginatedResponse<WithFields<Post, "post">>> {
+  const url = getUrl("/wp-json/wp/v2/posts", {
+    _embed: true,
+    page,
+    per_page: perPage,
+    ...query,
+  });
+
+  try {
+    const { data, headers } = await wordpressFetchWithHeaders<Post[]>(url, {
+      next: {
+        ...defaultFetchOptions.next,
+        tags: ["wordpress", ...tags],
+      },
+    });
+
+    const items = validateFieldsList("post", data);
+
+    return {
+      items,
+      // Leaves out the entities validation dropped from this page
+      total:
+        Number(headers.get("X-WP-Total") ?? data.length) -
+        (data.length - items.length),
+      totalPages: Number(headers.get("X-WP-TotalPages") ?? 1),
+    };
+  } catch (error) {
+    // WordPress answers with a 400 when the page is past the last one
+    if (error instanceof WordPressAPIError && error.status === 400 && page > 1) {
+      return { items: [], total: 0, totalPages: 0 };
+    }
+    throw error;
+  }
+}
+
+const emptyPage = { items: [], total: 0, totalPages: 0 };
+
+export async function getPosts({
+  page,
+  perPage,
+  ...filterParams
+}: PostFilterParams & PageParams = {}): Promise<
+  PaginatedResponse<WithFields<Post, "post">>
+> {
+  return getPostsPage(getPostsQuery(filterParams), { page, perPage }, [
+    "posts",
+  ]);
+}
+
+export async function getPostById(
+  id: number
+): Promise<WithFields<Post, "post">> {
   const url = getUrl(`/wp-json/wp/v2/posts/${id}`);
   const response = await wordpressFetch<Post>(url, {
     next: {
@@ -143,23 +342,130 @@ export async function getPostById(id: number): Promise<Post> {
     },
   });
 
-  return response;
+  return validateFields("post", response);
+}
+
+// Slug lookups return null when nothing matches, so routes can call `notFound()`
+export async function getPostBySlug(
+  slug: string
+): Promise<WithFields<Post, "post"> | null> {
+  const { isEnabled: isPreview } = await draftMode();
+  const url = getUrl(
+    "/wp-json/wp/v2/posts",
+    isPreview ? { slug, _embed: true, ...previewQuery } : { slug, _embed: true }
+  );
+  const response = await wordpressFetch<Post[]>(
+    url,
+    isPreview
+      ? getPreviewFetchOptions()
+      : {
+          next: {
+            ...defaultFetchOptions.next,
+            tags: ["wordpress", `post-${slug}`],
+          },
+        }
+  );
+
+  const post =
+    response[0] ??
+    (isPreview ? await getUnsluggedPreview<Post>("posts", slug) : null);
+
+  return post ? validateFields("post", post) : null;
 }
 
-export async function getPostBySlug(slug: string): Promise<Post> {
-  const url = getUrl("/wp-json/wp/v2/posts", { slug });
+// Fetches a password protected post with its password, bypassing the cache so
+// the unlocked content is never shared. Returns null when the password is wrong.
+export async function getProtectedPostById(
+  id: number,
+  password: string
+): Promise<WithFields<Post, "post"> | null> {
+  const url = getUrl(`/wp-json/wp/v2/posts/${id}`, { password, _embed: true });
+
+  try {
+    const response = await wordpressFetch<Post>(url, {
+      cache: "no-store",
+      next: {
+        revalidate: 0,
+      },
+    });
+
+    return validateFields("post", response);
+  } catch (error) {
+    // WordPress answers a wrong password with `rest_post_incorrect_password`
+    if (error instanceof WordPressUnauthorizedError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Posts in the order of `ids`, e.g. the related posts of an article
+export async function getPostsByIds(
+  ids: number[]
+): Promise<WithFields<Post, "post">[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const url = getUrl("/wp-json/wp/v2/posts", {
+    include: ids.join(","),
+    orderby: "include",
+    per_page: ids.length,
+    _embed: true,
+  });
   const response = await wordpressFetch<Post[]>(url, {
     next: {
       ...defaultFetchOptions.next,
-      tags: ["wordpress", `post-${slug}`],
+      tags: ["wordpress", ...ids.map((id) => `post-${id}`)],
     },
   });
 
-  return response[0];
+  return validateFieldsList("post", response);
+}
+
+// Fetches the block markup of a post and parses it into blocks.
+// WordPress only exposes `content.raw` in the edit context, so this needs the
+// application password and returns null when it is not configured.
+export async function getBlocksByPostId(
+  id: number
+): Promise<EditorBlock[] | null> {
+  const authorization = getApplicationPasswordHeader();
+
+  if (!authorization) {
+    return null;
+  }
+
+  const { isEnabled: isPreview } = await draftMode();
+  const url = getUrl(`/wp-json/wp/v2/posts/${id}`, {
+    context: "edit",
+    _fields: "id,content",
+  });
+
+  try {
+    const response = await wordpressFetch<Pick<Post, "id" | "content">>(
+      url,
+      isPreview
+        ? getPreviewFetchOptions()
+        : {
+            next: {
+              ...defaultFetchOptions.next,
+              tags: ["wordpress", `post-${id}`],
+            },
+            headers: {
+              Authorization: authorization,
+            },
+          }
+    );
+
+    return response.content.raw ? parseBlocks(response.content.raw) : null;
+  } catch (error) {
+    console.error("Error fetching post blocks:", error);
+    return null;
+  }
 }
 
 export async function getAllCategories(): Promise<Category[]> {
-  const url = getUrl("/wp-json/wp/v2/categories");
+  const url = getUrl("/wp-json/wp/v2/categories", { per_page: 100 });
   const response = await wordpressFetch<Category[]>(url, {
     next: {
       ...defaultFetchOptions.next,
@@ -182,7 +488,9 @@ export async function getCategoryById(id: number): Promise<Category> {
   return response;
 }
 
-export async function getCategoryBySlug(slug: string): Promise<Category> {
+export async function getCategoryBySlug(
+  slug: string
+): Promise<Category | null> {
   const url = getUrl("/wp-json/wp/v2/categories", { slug });
   const response = await wordpressFetch<Category[]>(url, {
     next: {
@@ -191,10 +499,12 @@ export async function getCategoryBySlug(slug: string): Promise<Category> {
     },
   });
 
-  return response[0];
+  return response[0] ?? null;
 }
 
-export async function getPostsByCategory(categoryId: number): Promise<Post[]> {
+export async function getPostsByCategory(
+  categoryId: number
+): Promise<WithFields<Post, "post">[]> {
   const url = getUrl("/wp-json/wp/v2/posts", { categories: categoryId });
   const response = await wordpressFetch<Post[]>(url, {
     next: {
@@ -203,10 +513,12 @@ export async function getPostsByCategory(categoryId: number): Promise<Post[]> {
     },
   });
 
-  return response;
+  return validateFieldsList("post", response);
 }
 
-export async function getPostsByTag(tagId: number): Promise<Post[]> {
+export async function getPostsByTag(
+  tagId: number
+): Promise<WithFields<Post, "post">[]> {
   const url = getUrl("/wp-json/wp/v2/posts", { tags: tagId });
   const response = await wordpressFetch<Post[]>(url, {
     next: {
@@ -215,7 +527,7 @@ export async function getPostsByTag(tagId: number): Promise<Post[]> {
     },
   });
 
-  return response;
+  return validateFieldsList("post", response);
 }
 
 export async function getTagsByPost(postId: number): Promise<Tag[]> {
@@ -254,7 +566,7 @@ export async function getTagById(id: number): Promise<Tag> {
   return response;
 }
 
-export async function getTagBySlug(slug: string): Promise<Tag> {
+export async function getTagBySlug(slug: string): Promise<Tag | null> {
   const url = getUrl("/wp-json/wp/v2/tags", { slug });
   const response = await wordpressFetch<Tag[]>(url, {
     next: {
@@ -263,10 +575,10 @@ export async function getTagBySlug(slug: string): Promise<Tag> {
     },
   });
 
-  return response[0];
+  return response[0] ?? null;
 }
 
-export async function getAllPages(): Promise<Page[]> {
+export async function getAllPages(): Promise<WithFields<Page, "page">[]> {
   const url = getUrl("/wp-json/wp/v2/pages");
   const response = await wordpressFetch<Page[]>(url, {
     next: {
@@ -275,10 +587,12 @@ export async function getAllPages(): Promise<Page[]> {
     },
   });
 
-  return response;
+  return validateFieldsList("page", response);
 }
 
-export async function getPageById(id: number): Promise<Page> {
+export async function getPageById(
+  id: number
+): Promise<WithFields<Page, "page">> {
   const url = getUrl(`/wp-json/wp/v2/pages/${id}`);
   const response = await wordpressFetch<Page>(url, {
     next: {
@@ -287,19 +601,154 @@ export async function getPageById(id: number): Promise<Page> {
     },
   });
 
-  return response;
+  return validateFields("page", response);
 }
 
-export async function getPageBySlug(slug: string): Promise<Page> {
-  const url = getUrl("/wp-json/wp/v2/pages", { slug });
-  const response = await wordpressFetch<Page[]>(url, {
-    next: {
-      ...defaultFetchOptions.next,
-      tags: ["wordpress", `page-${slug}`],
-    },
+// All pages sharing a slug; WordPress only keeps slugs unique among siblings
+async function getPagesBySlug(
+  slug: string
+): Promise<WithFields<Page, "page">[]> {
+  const { isEnabled: isPreview } = await draftMode();
+  const url = getUrl(
+    "/wp-json/wp/v2/pages",
+    isPreview ? { slug, ...previewQuery } : { slug }
+  );
+  const response = await wordpressFetch<Page[]>(
+    url,
+    isPreview
+      ? getPreviewFetchOptions()
+      : {
+          next: {
+            ...defaultFetchOptions.next,
+            tags: ["wordpress", `page-${slug}`],
+          },
+        }
+  );
+
+  if (isPreview && !response.length) {
+    const page = await getUnsluggedPreview<Page>("pages", slug);
+    return page ? [validateFields("page", page)] : [];
+  }
+
+  return validateFieldsList("page", response);
+}
+
+export async function getPageBySlug(
+  slug: string
+): Promise<WithFields<Page, "page"> | null> {
+  const pages = await getPagesBySlug(slug);
+  return pages[0] ?? null;
+}
+
+// Id, slug, title and position of every published page, used to resolve
+// nested page URLs and to render the page tree. Pass `locale` to list the pages
+// of another language than the request's.
+export async function getPageHierarchy(
+  locale?: Locale
+): Promise<PageSummary[]> {
+  const pages: PageSummary[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const url = getUrl("/wp-json/wp/v2/pages", {
+      _fields: "id,slug,title,parent,menu_order,link",
+      orderby: "menu_order",
+      order: "asc",
+      per_page: 100,
+      page,
+      ...(locale && getLocaleQuery(locale)),
+    });
+    const { data, headers } = await wordpressFetchWithHeaders<PageSummary[]>(
+      url,
+      {
+        next: {
+          ...defaultFetchOptions.next,
+          tags: ["wordpress", "pages"],
+        },
+      }
+    );
+
+    pages.push(...data);
+    totalPages = Number(headers.get("X-WP-TotalPages") ?? 1);
+    page++;
+  } while (page <= totalPages);
+
+  return pages;
+}
+
+// Resolves a nested page path such as ["about", "team"].
+// Returns the page whose ancestor slugs match the path, or the first page with
+// the last slug when none does, along with its canonical path. Callers compare
+// `path` against the requested one to reject or redirect mismatched URLs.
+export async function getPageByPath(segments: string[]): Promise<{
+  page: WithFields<Page, "page">;
+  ancestors: PageSummary[];
+  path: string[];
+} | null> {
+  const slug = segments[segments.length - 1];
+
+  if (!slug) {
+    return null;
+  }
+
+  const [candidates, hierarchy] = await Promise.all([
+    getPagesBySlug(slug),
+    getPageHierarchy(),
+  ]);
+
+  const resolved = candidates.map((page) => {
+    const ancestors = getPageAncestors(page, hierarchy);
+    return {
+      page,
+      ancestors,
+      path: [
+        ...ancestors.map((ancestor) => ancestor.slug),
+        page.slug || String(page.id),
+      ],
+    };
   });
 
-  return response[0];
+  return (
+    resolved.find((match) => match.path.join("/") === segments.join("/")) ??
+    resolved[0] ??
+    null
+  );
+}
+
+// Localized path of a post or page for `/api/preview`, which WordPress links
+// to with the id. Drafts saved without a slug are routed by their id.
+export async function getPreviewPath(
+  type: "post" | "page",
+  id: number
+): Promise<string | null> {
+  const url = getUrl(`/wp-json/wp/v2/${type}s/${id}`, {
+    context: "edit",
+    _fields: "id,slug,parent,lang,wpml_current_locale",
+  });
+
+  const item = await wordpressFetch<
+    Pick<Page, "id" | "slug" | "parent" | "lang" | "wpml_current_locale">
+  >(url, getPreviewFetchOptions()).catch((error) => {
+    if (error instanceof WordPressNotFoundError) {
+      return null;
+    }
+    throw error;
+  });
+
+  if (!item) {
+    return null;
+  }
+
+  const locale = getItemLocale(item) ?? defaultLocale;
+  const slug = item.slug || String(item.id);
+
+  if (type === "post") {
+    return localizePath(`/posts/${encodeURIComponent(slug)}`, locale);
+  }
+
+  const hierarchy = await getPageHierarchy(locale);
+  return localizePath(getPageHref({ ...item, slug }, hierarchy), locale);
 }
 
 export async function getAllAuthors(): Promise<Author[]> {
@@ -326,7 +775,7 @@ export async function getAuthorById(id: number): Promise<Author> {
   return response;
 }
 
-export async function getAuthorBySlug(slug: string): Promise<Author> {
+export async function getAuthorBySlug(slug: string): Promise<Author | null> {
   const url = getUrl("/wp-json/wp/v2/users", { slug });
   const response = await wordpressFetch<Author[]>(url, {
     next: {
@@ -335,10 +784,12 @@ export async function getAuthorBySlug(slug: string): Promise<Author> {
     },
   });
 
-  return response[0];
+  return response[0] ?? null;
 }
 
-export async function getPostsByAuthor(authorId: number): Promise<Post[]> {
+export async function getPostsByAuthor(
+  authorId: number
+): Promise<WithFields<Post, "post">[]> {
   const url = getUrl("/wp-json/wp/v2/posts", { author: authorId });
   const response = await wordpressFetch<Post[]>(url, {
     next: {
@@ -347,53 +798,347 @@ export async function getPostsByAuthor(authorId: number): Promise<Post[]> {
     },
   });
 
-  return response;
+  return validateFieldsList("post", response);
 }
 
 export async function getPostsByAuthorSlug(
-  authorSlug: string
-): Promise<Post[]> {
+  authorSlug: string,
+  pageParams: PageParams = {}
+): Promise<PaginatedResponse<WithFields<Post, "post">>> {
   const author = await getAuthorBySlug(authorSlug);
-  const url = getUrl("/wp-json/wp/v2/posts", { author: author.id });
-  const response = await wordpressFetch<Post[]>(url, {
-    next: {
-      ...defaultFetchOptions.next,
-      tags: ["wordpress", `author-${authorSlug}`],
-    },
-  });
 
-  return response;
+  if (!author) {
+    return emptyPage;
+  }
+
+  return getPostsPage({ author: author.id }, pageParams, [
+    "posts",
+    `author-${author.id}`,
+    `author-${authorSlug}`,
+  ]);
 }
 
 export async function getPostsByCategorySlug(
-  categorySlug: string
-): Promise<Post[]> {
+  categorySlug: string,
+  pageParams: PageParams = {}
+): Promise<PaginatedResponse<WithFields<Post, "post">>> {
   const category = await getCategoryBySlug(categorySlug);
-  const url = getUrl("/wp-json/wp/v2/posts", { categories: category.id });
-  const response = await wordpressFetch<Post[]>(url, {
+
+  if (!category) {
+    return emptyPage;
+  }
+
+  return getPostsPage({ categories: category.id }, pageParams, [
+    "posts",
+    `category-${category.id}`,
+    `category-${categorySlug}`,
+  ]);
+}
+
+export async function getPostsByTagSlug(
+  tagSlug: string,
+  pageParams: PageParams = {}
+): Promise<PaginatedResponse<WithFields<Post, "post">>> {
+  const tag = await getTagBySlug(tagSlug);
+
+  if (!tag) {
+    return emptyPage;
+  }
+
+  return getPostsPage({ tags: tag.id }, pageParams, [
+    "posts",
+    `tag-${tag.id}`,
+    `tag-${tagSlug}`,
+  ]);
+}
+
+// Posts published in a year or month, tagged with the period,
+// e.g. `posts-2024` or `posts-2024-05`
+export async function getPostsByPeriod(
+  period: ArchivePeriod,
+  pageParams: PageParams = {}
+): Promise<PaginatedResponse<WithFields<Post, "post">>> {
+  return getPostsPage(getPeriodBounds(period), pageParams, [
+    "posts",
+    getPeriodTag(period),
+  ]);
+}
+
+// Months with published posts and their post counts, newest first.
+// WordPress has no archive endpoint, so this lists the date of every post.
+export async function getPostArchiveMonths(): Promise<ArchiveMonth[]> {
+  const dates: string[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const url = getUrl("/wp-json/wp/v2/posts", {
+      _fields: "date",
+      per_page: 100,
+      page,
+    });
+    const { data, headers } = await wordpressFetchWithHeaders<
+      Pick<Post, "date">[]
+    >(url, {
+      next: {
+        ...defaultFetchOptions.next,
+        tags: ["wordpress", "posts"],
+      },
+    });
+
+    dates.push(...data.map((post) => post.date));
+    totalPages = Number(headers.get("X-WP-TotalPages") ?? 1);
+    page++;
+  } while (page <= totalPages);
+
+  return groupArchiveMonths(dates);
+}
+
+// Custom post types and taxonomies
+// Post types and taxonomies are resolved to their REST base through `wp.config.ts`
+
+function getPostTypeRestBase(postType: string): string {
+  return Object.hasOwn(wpConfig.postTypes, postType)
+    ? wpConfig.postTypes[postType].restBase
+    : postType;
+}
+
+function getTaxonomyRestBase(taxonomy: string): string {
+  return Object.hasOwn(wpConfig.taxonomies, taxonomy)
+    ? wpConfig.taxonomies[taxonomy].restBase
+    : taxonomy;
+}
+
+export async function getEntries<P extends string>(
+  postType: P,
+  { page = 1, perPage = 9, terms, ...params }: EntryQueryParams = {}
+): Promise<PaginatedResponse<WithFields<Entry, P>>> {
+  const query: Record<string, any> = {
+    _embed: true,
+    page,
+    per_page: perPage,
+    ...params,
+  };
+
+  Object.entries(terms ?? {}).forEach(([restBase, ids]) => {
+    query[restBase] = ids.join(",");
+  });
+
+  const url = getUrl(`/wp-json/wp/v2/${getPostTypeRestBase(postType)}`, query);
+
+  try {
+    const { data, headers } = await wordpressFetchWithHeaders<Entry[]>(url, {
+      next: {
+        ...defaultFetchOptions.next,
+        tags: ["wordpress", `type-${postType}`],
+      },
+    });
+
+    const items = validateFieldsList(postType, data);
+
+    return {
+      items,
+      // Leaves out the entities validation dropped from this page
+      total:
+        Number(headers.get("X-WP-Total") ?? data.length) -
+        (data.length - items.length),
+      totalPages: Number(headers.get("X-WP-TotalPages") ?? 1),
+    };
+  } catch (error) {
+    // WordPress answers with a 400 when the page is past the last one
+    if (error instanceof WordPressAPIError && error.status === 400 && page > 1) {
+      return { items: [], total: 0, totalPages: 0 };
+    }
+    throw error;
+  }
+}
+
+export async function getEntryBySlug<P extends string>(
+  postType: P,
+  slug: string
+): Promise<WithFields<Entry, P> | null> {
+  const { isEnabled: isPreview } = await draftMode();
+  const url = getUrl(
+    `/wp-json/wp/v2/${getPostTypeRestBase(postType)}`,
+    isPreview ? { slug, _embed: true, ...previewQuery } : { slug, _embed: true }
+  );
+  const response = await wordpressFetch<Entry[]>(
+    url,
+    isPreview
+      ? getPreviewFetchOptions()
+      : {
+          next: {
+            ...defaultFetchOptions.next,
+            tags: ["wordpress", `${postType}-${slug}`],
+          },
+        }
+  );
+
+  return response[0] ? validateFields(postType, response[0]) : null;
+}
+
+export async function getTerms(
+  taxonomy: string,
+  query: Record<string, any> = {}
+): Promise<Term[]> {
+  const url = getUrl(`/wp-json/wp/v2/${getTaxonomyRestBase(taxonomy)}`, {
+    per_page: 100,
+    ...query,
+  });
+  const response = await wordpressFetch<Term[]>(url, {
     next: {
       ...defaultFetchOptions.next,
-      tags: ["wordpress", `category-${categorySlug}`],
+      tags: ["wordpress", `taxonomy-${taxonomy}`],
     },
   });
 
   return response;
 }
 
-export async function getPostsByTagSlug(tagSlug: string): Promise<Post[]> {
-  const tag = await getTagBySlug(tagSlug);
-  const url = getUrl("/wp-json/wp/v2/posts", { tags: tag.id });
-  const response = await wordpressFetch<Post[]>(url, {
+// Navigation menus
+// The menu endpoints require the `edit_theme_options` capability, so they are
+// fetched with the application password and return an empty list without it.
+
+export async function getMenuItemsByLocation(
+  location: string
+): Promise<MenuItem[]> {
+  const authorization = getApplicationPasswordHeader();
+
+  if (!authorization) {
+    return [];
+  }
+
+  const fetchOptions: FetchOptions = {
     next: {
       ...defaultFetchOptions.next,
-      tags: ["wordpress", `tag-${tagSlug}`],
+      tags: ["wordpress", "menus", `menu-${location}`],
     },
+    headers: {
+      Authorization: authorization,
+    },
+  };
+
+  const menuLocation = await wordpressFetch<MenuLocation>(
+    getUrl(`/wp-json/wp/v2/menu-locations/${location}`),
+    fetchOptions
+  );
+
+  if (!menuLocation.menu) {
+    return [];
+  }
+
+  return wordpressFetch<MenuItem[]>(
+    getUrl("/wp-json/wp/v2/menu-items", {
+      menus: menuLocation.menu,
+      per_page: 100,
+      orderby: "menu_order",
+      order: "asc",
+    }),
+    fetchOptions
+  );
+}
+
+// Comments
+
+// Nest comments under their parent. Replies whose parent is missing
+// (e.g. not yet approved) are kept at the top level.
+function buildCommentTree(comments: Comment[]): CommentThread[] {
+  const threads = new Map<number, CommentThread>();
+  comments.forEach((comment) => {
+    threads.set(comment.id, { ...comment, replies: [] });
   });
 
-  return response;
+  const roots: CommentThread[] = [];
+  threads.forEach((thread) => {
+    const parent = thread.parent ? threads.get(thread.parent) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  return roots;
+}
+
+// Fetches the approved comments of a post as threads. `pendingIds` are comments
+// held for moderation that the current visitor wrote; they are fetched with the
+// application password, bypassing the cache, and merged into the threads.
+// Comments of a password protected post need its `password` and are not cached.
+export async function getCommentsByPost(
+  postId: number,
+  pendingIds: number[] = [],
+  password?: string
+): Promise<CommentThread[]> {
+  const url = getUrl("/wp-json/wp/v2/comments", {
+    post: postId,
+    per_page: 100,
+    order: "asc",
+    password,
+  });
+  const approved = await wordpressFetch<Comment[]>(
+    url,
+    password
+      ? { cache: "no-store", next: { revalidate: 0 } }
+      : {
+          next: {
+            ...defaultFetchOptions.next,
+            tags: ["wordpress", "comments", `comments-${postId}`],
+          },
+        }
+  );
+
+  const authorization = getApplicationPasswordHeader();
+  let pending: Comment[] = [];
+
+  if (pendingIds.length > 0 && authorization) {
+    try {
+      pending = await wordpressFetch<Comment[]>(
+        getUrl("/wp-json/wp/v2/comments", {
+          post: postId,
+          include: pendingIds.join(","),
+          status: "hold",
+        }),
+        {
+          cache: "no-store",
+          next: {
+            revalidate: 0,
+          },
+          headers: {
+            Authorization: authorization,
+          },
+        }
+      );
+    } catch (error) {
+      console.error("Error fetching pending comments:", error);
+    }
+  }
+
+  return buildCommentTree(
+    [...approved, ...pending].sort(
+      (a, b) => new Date(a.date_gmt).getTime() - new Date(b.date_gmt).getTime()
+    )
+  );
+}
+
+// Submits a comment as an anonymous visitor. WordPress must allow anonymous
+// REST comments (`rest_allow_anonymous_comments`); its discussion settings
+// decide whether the comment is approved or held for moderation.
+export async function createComment(input: CommentInput): Promise<Comment> {
+  const url = getUrl("/wp-json/wp/v2/comments");
+  return wordpressFetch<Comment>(url, {
+    method: "POST",
+    cache: "no-store",
+    next: {
+      revalidate: 0,
+    },
+    body: JSON.stringify(input),
+  });
 }
 
-export async function getFeaturedMediaById(id: number): Promise<FeaturedMedia | null> {
+export async function getFeaturedMediaById(
+  id: number
+): Promise<FeaturedMedia | null> {
   const url = getUrl(`/wp-json/wp/v2/media/${id}`);
   try {
     const response = await wordpressFetch<FeaturedMedia>(url, {
@@ -409,6 +1154,147 @@ export async function getFeaturedMediaById(id: number): Promise<FeaturedMedia |
   }
 }
 
+// Media items by id, e.g. the images inside post content. Ids WordPress
+// doesn't return (deleted or private media) are missing from the result.
+export async function getMediaByIds(ids: number[]): Promise<FeaturedMedia[]> {
+  return getByIds<FeaturedMedia>(
+    "/wp-json/wp/v2/media",
+    ids.slice(0, 100),
+    (id) => `media-${id}`
+  );
+}
+
+// Fetches a set of entities in one request with `include=`
+async function getByIds<T>(
+  path: string,
+  ids: number[],
+  tag: (id: number) => string
+): Promise<T[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const url = getUrl(path, { include: ids.join(","), per_page: 100 });
+  return wordpressFetch<T[]>(url, {
+    next: {
+      ...defaultFetchOptions.next,
+      tags: ["wordpress", ...ids.map(tag)],
+    },
+  });
+}
+
+function isEmbedded<T extends object>(value: T | EmbeddedError): value is T {
+  return !("code" in value);
+}
+
+// Resolves the author, featured image, categories and tags of each post.
+// Relations come from `_embedded` when the posts were fetched with `_embed`;
+// anything missing is fetched with one `include=` request per type.
+export async function withRelations<T extends Post>(
+  posts: T[]
+): Promise<PostWithRelations<T>[]> {
+  const embedded = posts.map((post) => {
+    const author = post._embedded?.author?.find(isEmbedded) ?? null;
+    const featuredMedia =
+      post._embedded?.["wp:featuredmedia"]?.find(isEmbedded) ?? null;
+    const terms = post._embedded?.["wp:term"]?.flat() ?? [];
+    return { author, featuredMedia, terms };
+  });
+
+  const missingAuthors = new Set<number>();
+  const missingMedia = new Set<number>();
+  const missingCategories = new Set<number>();
+  const missingTags = new Set<number>();
+
+  posts.forEach((post, index) => {
+    const { author, featuredMedia, terms } = embedded[index];
+    const termIds = new Set(terms.map((term) => term.id));
+
+    if (post.author && !author) missingAuthors.add(post.author);
+    if (post.featured_media && !featuredMedia) {
+      missingMedia.add(post.featured_media);
+    }
+    post.categories
+      ?.filter((id) => !termIds.has(id))
+      .forEach((id) => missingCategories.add(id));
+    post.tags
+      ?.filter((id) => !termIds.has(id))
+      .forEach((id) => missingTags.add(id));
+  });
+
+  // A failed batch leaves those relations empty rather than failing the page
+  const fetchBatch = <R>(request: Promise<R[]>) =>
+    request.catch((error) => {
+      console.error("Error fetching post relations:", error);
+      return [] as R[];
+    });
+
+  const [authors, media, categories, tags] = await Promise.all([
+    fetchBatch(
+      getByIds<EmbeddedAuthor>(
+        "/wp-json/wp/v2/users",
+        [...missingAuthors],
+        (id) => `author-${id}`
+      )
+    ),
+    fetchBatch(
+      getByIds<EmbeddedMedia>(
+        "/wp-json/wp/v2/media",
+        [...missingMedia],
+        (id) => `media-${id}`
+      )
+    ),
+    fetchBatch(
+      getByIds<EmbeddedTerm>(
+        "/wp-json/wp/v2/categories",
+        [...missingCategories],
+        (id) => `category-${id}`
+      )
+    ),
+    fetchBatch(
+      getByIds<EmbeddedTerm>(
+        "/wp-json/wp/v2/tags",
+        [...missingTags],
+        (id) => `tag-${id}`
+      )
+    ),
+  ]);
+
+  const authorsById = new Map(authors.map((author) => [author.id, author]));
+  const mediaById = new Map(media.map((item) => [item.id, item]));
+  const termsById = new Map(
+    [...categories, ...tags].map((term) => [term.id, term])
+  );
+
+  return posts.map((post, index) => {
+    const { author, featuredMedia, terms } = embedded[index];
+    const embeddedTerms = new Map(terms.map((term) => [term.id, term]));
+    const getTerm = (id: number) => embeddedTerms.get(id) ?? termsById.get(id);
+
+    return {
+      ...post,
+      relations: {
+        author: author ?? authorsById.get(post.author) ?? null,
+        featuredMedia:
+          featuredMedia ?? mediaById.get(post.featured_media) ?? null,
+        categories: (post.categories ?? [])
+          .map(getTerm)
+          .filter((term): term is EmbeddedTerm => !!term),
+        tags: (post.tags ?? [])
+          .map(getTerm)
+          .filter((term): term is EmbeddedTerm => !!term),
+      },
+    };
+  });
+}
+
+export async function withPostRelations<T extends Post>(
+  post: T
+): Promise<PostWithRelations<T>> {
+  const [result] = await withRelations([post]);
+  return result;
+}
+
 // Helper function to search across categories
 export async function searchCategories(query: string): Promise<Category[]> {
   const url = getUrl("/wp-json/wp/v2/categories", {
@@ -436,6 +1322,120 @@ export async function searchAuthors(query: string): Promise<Author[]> {
   return wordpressFetch<Author[]>(url);
 }
 
+// Helper function to search across posts, pages and custom post types
+export async function searchContent(
+  query: string,
+  { perPage = 20, subtype }: { perPage?: number; subtype?: string[] } = {}
+): Promise<SearchResult[]> {
+  const url = getUrl("/wp-json/wp/v2/search", {
+    search: query,
+    type: "post",
+    subtype: subtype?.join(","),
+    per_page: perPage,
+    _embed: "self",
+  });
+  return wordpressFetch<SearchResult[]>(url, {
+    next: {
+      ...defaultFetchOptions.next,
+      tags: ["wordpress", "search"],
+    },
+  });
+}
+
+// Sitemap Functions
+// Collections are listed 100 items at a time, with only the requested fields
+
+const COLLECTION_PAGE_SIZE = 100;
+
+// Number of items in a collection such as `posts` or `users`, from `X-WP-Total`
+export async function getCollectionTotal(
+  path: string,
+  query: Record<string, any> = {},
+  tag: string
+): Promise<number> {
+  const url = getUrl(`/wp-json/wp/v2/${path}`, {
+    ...query,
+    _fields: "id",
+    per_page: 1,
+  });
+  const { data, headers } = await wordpressFetchWithHeaders<unknown[]>(url, {
+    next: {
+      ...defaultFetchOptions.next,
+      tags: ["wordpress", tag],
+    },
+  });
+
+  return Number(headers.get("X-WP-Total") ?? data.length);
+}
+
+// Up to `limit` items of a collection starting at `offset`, which must be a
+// multiple of 100
+export async function getCollectionSlice<T>(
+  path: string,
+  query: Record<string, any>,
+  { offset, limit }: { offset: number; limit: number },
+  tag: string
+): Promise<T[]> {
+  const items: T[] = [];
+  const lastPage = Math.ceil((offset + limit) / COLLECTION_PAGE_SIZE);
+  let page = offset / COLLECTION_PAGE_SIZE + 1;
+  let totalPages = page;
+
+  do {
+    const url = getUrl(`/wp-json/wp/v2/${path}`, {
+      ...query,
+      per_page: COLLECTION_PAGE_SIZE,
+      page,
+    });
+    const { data, headers } = await wordpressFetchWithHeaders<T[]>(url, {
+      next: {
+        ...defaultFetchOptions.next,
+        tags: ["wordpress", tag],
+      },
+    });
+
+    items.push(...data);
+    totalPages = Number(headers.get("X-WP-TotalPages") ?? page);
+    page++;
+  } while (page <= Math.min(lastPage, totalPages));
+
+  return items;
+}
+
+// Translations
+// Multilingual plugins filter collections by language, so items of another
+// language are fetched with that language selected
+
+// Slug and parent of items such as posts or terms in `locale`, 100 per request
+export async function getTranslatedItems(
+  path: string,
+  ids: number[],
+  locale: Locale,
+  tag: string
+): Promise<TranslatedItem[]> {
+  const items: TranslatedItem[] = [];
+
+  for (let index = 0; index < ids.length; index += COLLECTION_PAGE_SIZE) {
+    const url = getUrl(`/wp-json/wp/v2/${path}`, {
+      include: ids.slice(index, index + COLLECTION_PAGE_SIZE).join(","),
+      per_page: COLLECTION_PAGE_SIZE,
+      _fields: "id,slug,parent",
+      ...getLocaleQuery(locale),
+    });
+
+    items.push(
+      ...(await wordpressFetch<TranslatedItem[]>(url, {
+        next: {
+          ...defaultFetchOptions.next,
+          tags: ["wordpress", tag],
+        },
+      }))
+    );
+  }
+
+  return items;
+}
+
 // Helper function to revalidate WordPress data
 export async function revalidateWordPressData(tags: string[] = ["wordpress"]) {
   try {
@@ -448,5 +1448,12 @@ export async function revalidateWordPressData(tags: string[] = ["wordpress"]) {
   }
 }
 
-// Export error class for error handling
-export { WordPressAPIError };
+// Export error classes for error handling
+export {
+  WordPressAPIError,
+  WordPressNotFoundError,
+  WordPressUnauthorizedError,
+  WordPressTimeoutError,
+  WordPressUnavailableError,
+  WordPressFieldValidationError,
+};
@@ -1,4 +1,5 @@
 // Define the menu items
+// These are used when WordPress has no menu assigned to the matching location
 export const mainMenu = {
   home: "/",
   courses: "/courses",
@@ -11,3 +12,9 @@ export const contentMenu = {
   tags: "/posts/tags",
   authors: "/posts/authors",
 };
+
+// WordPress menu locations (registered by the theme) for each menu
+export const menuLocations = {
+  main: "primary",
+  content: "footer",
+};
@@ -1,22 +1,74 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 
+import {
+  defaultLocale,
+  isLocale,
+  localizePath,
+  splitLocale,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+} from '@/lib/i18n'
+
+// 로케일 접두사 없이 제공되는 경로 (사이트맵, 피드, robots.txt 등 확장자가 있는 파일)
+function isLocaleExempt(pathname: string) {
+  return pathname.startsWith('/sitemap') || /\.[a-z0-9]+$/i.test(pathname)
+}
+
+// 쿠키에 저장된 마지막 로케일, 없으면 Accept-Language 헤더의 첫 번째 지원 언어
+function getPreferredLocale(request: NextRequest) {
+  const cookie = request.cookies.get(LOCALE_COOKIE)?.value
+  if (isLocale(cookie)) return cookie
+
+  const accepted = (request.headers.get('accept-language') ?? '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().split('-')[0].toLowerCase())
+
+  return accepted.find(isLocale) ?? defaultLocale
+}
+
 export function middleware(request: NextRequest) {
-  const response = NextResponse.next()
-  
   // 프록시 접근 감지 (resume.dantehub.com 또는 기타 프록시 도메인)
   const hostname = request.nextUrl.hostname
   const host = request.headers.get('host')
-  
-  const isProxyAccess = hostname === 'resume.dantehub.com' || 
+
+  const isProxyAccess = hostname === 'resume.dantehub.com' ||
                        host === 'resume.dantehub.com'
-  
+
+  const { pathname } = request.nextUrl
+  const { locale, path } = splitLocale(pathname)
+  let response: NextResponse
+
+  if (isProxyAccess || isLocaleExempt(pathname)) {
+    response = NextResponse.next()
+  } else if (locale) {
+    // /ko/posts/... 를 /posts/... 로 재작성하고 로케일은 요청 헤더로 전달
+    const url = request.nextUrl.clone()
+    url.pathname = path
+    const requestHeaders = new Headers(request.headers)
+    requestHeaders.set(LOCALE_HEADER, locale)
+
+    response = NextResponse.rewrite(url, { request: { headers: requestHeaders } })
+    response.cookies.set(LOCALE_COOKIE, locale, {
+      path: '/',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 365,
+    })
+  } else if (request.method === 'GET' || request.method === 'HEAD') {
+    // 접두사가 없는 페이지는 선호 로케일로 리디렉션
+    const url = request.nextUrl.clone()
+    url.pathname = localizePath(pathname, getPreferredLocale(request))
+    return NextResponse.redirect(url)
+  } else {
+    response = NextResponse.next()
+  }
+
   if (isProxyAccess) {
     // 서버 컴포넌트에서 사용할 헤더 설정
     response.headers.set('x-proxy-access', 'true')
     response.headers.set('x-proxy-domain', hostname)
   }
-  
+
   return response
 }
 
@@ -2,10 +2,19 @@ type SiteConfig = {
   site_domain: string;
   site_name: string;
   site_description: string;
+  // Whether feeds include the full post content or only the excerpt
+  feed_content: "full" | "excerpt";
+  // ISO 4217 code of WooCommerce prices, used in structured data
+  currency: string;
+  // Color scheme of the generated Open Graph images
+  og_theme: "light" | "dark";
 };
 
 export const siteConfig: SiteConfig = {
   site_name: process.env.NEXT_SITE_NAME || "default-site-name",
   site_description: process.env.NEXT_SITE_DESCRIPTION || "default description",
   site_domain: process.env.SITE_DOMAIN || "https://default-domain.com",
+  feed_content: process.env.FEED_CONTENT === "excerpt" ? "excerpt" : "full",
+  currency: process.env.STORE_CURRENCY || "USD",
+  og_theme: process.env.OG_THEME === "dark" ? "dark" : "light",
 };
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+import type { FieldSchema } from "@/lib/wordpress-fields";
+
+// Custom post types and taxonomies exposed through the WordPress REST API.
+// Each post type listed here gets a route at `/[type]` and `/[type]/[slug]`.
+// The post types must be registered in WordPress with `show_in_rest`.
+
+type PostTypeConfig = {
+  // REST base of the post type, e.g. `/wp-json/wp/v2/{restBase}`
+  restBase: string;
+  label: string;
+  description?: string;
+};
+
+type TaxonomyConfig = {
+  restBase: string;
+  label: string;
+};
+
+// Settings -> Permalinks of the WordPress site, used to map links in content
+// to Next routes. Post links only resolve when the structure has `%postname%`.
+type PermalinkConfig = {
+  post: string;
+  categoryBase: string;
+  tagBase: string;
+};
+
+type WPConfig = {
+  postTypes: Record<string, PostTypeConfig>;
+  taxonomies: Record<string, TaxonomyConfig>;
+  permalinks: PermalinkConfig;
+};
+
+export const wpConfig: WPConfig = {
+  // For example:
+  //
+  // postTypes: {
+  //   events: {
+  //     restBase: "events",
+  //     label: "Events",
+  //     description: "Upcoming and past events",
+  //   },
+  //   "case-studies": {
+  //     restBase: "case-studies",
+  //     label: "Case Studies",
+  //     description: "Selected client work",
+  //   },
+  // },
+  postTypes: {},
+  taxonomies: {
+    category: {
+      restBase: "categories",
+      label: "Categories",
+    },
+    post_tag: {
+      restBase: "tags",
+      label: "Tags",
+    },
+  },
+  permalinks: {
+    post: "/%year%/%monthnum%/%day%/%postname%/",
+    categoryBase: "category",
+    tagBase: "tag",
+  },
+};
+
+// Zod schemas for the ACF and meta fields of each post type.
+// Fetch functions validate responses against these and return the inferred
+// types, e.g. `getEntryBySlug("events", slug)` returns `acf.start_date` as a
+// string with the schemas below:
+//
+// export const fieldSchemas = {
+//   events: {
+//     acf: z.object({
+//       start_date: z.string(),
+//       end_date: z.string().optional(),
+//       location: z.string().optional(),
+//       registration_url: z.string().url().or(z.literal("")).optional(),
+//     }),
+//   },
+//   "case-studies": {
+//     acf: z.object({
+//       client: z.string(),
+//       industry: z.string().optional(),
+//       project_url: z.string().url().or(z.literal("")).optional(),
+//     }),
+//   },
+// } satisfies Record<string, FieldSchema>;
+export const fieldSchemas = {} satisfies Record<string, FieldSchema>;